@@ -0,0 +1,40 @@
+"use client"
+
+import type { HudSnapshot } from "@/lib/runner/protocol"
+
+interface BossHudProps {
+  warning: boolean
+  boss: HudSnapshot["boss"]
+}
+
+// Health bar colors by phase, matching the boss on the canvas
+const PHASE_COLORS = ["bg-violet-600", "bg-fuchsia-600", "bg-red-600"]
+
+export default function BossHud({ warning, boss }: BossHudProps) {
+  return (
+    <>
+      {boss && (
+        <div
+          className="absolute top-0 inset-x-0 h-3 bg-gray-800 bg-opacity-75 pointer-events-none"
+          role="progressbar"
+          aria-label="Boss health"
+          aria-valuemin={0}
+          aria-valuemax={boss.maxHp}
+          aria-valuenow={boss.hp}
+        >
+          <div
+            className={`h-full transition-all duration-100 ${PHASE_COLORS[boss.phase] ?? PHASE_COLORS[0]}`}
+            style={{ width: `${(boss.hp / boss.maxHp) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {warning && (
+        <div className="absolute inset-x-0 top-1/3 z-10 py-4 bg-red-900 bg-opacity-75 text-center pointer-events-none animate-pulse">
+          <p className="text-4xl font-bold text-red-300 tracking-widest">WARNING</p>
+          <p className="text-white">A boss is approaching</p>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  ACTION_LABELS,
+  bindKey,
+  DEFAULT_KEY_BINDINGS,
+  findConflict,
+  formatKey,
+  RESERVED_KEYS,
+  unbindKey,
+  type BindableAction,
+  type KeyBindings,
+} from "@/lib/input/bindings"
+import {
+  DEFAULT_GAMEPAD_SETTINGS,
+  MAX_DEAD_ZONE,
+  MAX_SENSITIVITY,
+  MIN_SENSITIVITY,
+  type GamepadSettings,
+} from "@/lib/input/gamepad"
+import {
+  DEFAULT_TOUCH_SETTINGS,
+  MAX_TOUCH_SENSITIVITY,
+  MIN_TOUCH_SENSITIVITY,
+  TOUCH_SCHEME_LABELS,
+  TOUCH_SCHEMES,
+  type TouchSettings,
+} from "@/lib/input/touch"
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings
+  onChange: (bindings: KeyBindings) => void
+  gamepadSettings: GamepadSettings
+  onGamepadSettingsChange: (settings: GamepadSettings) => void
+  touchSettings: TouchSettings
+  onTouchSettingsChange: (settings: TouchSettings) => void
+  autoFire: boolean
+  onAutoFireChange: (autoFire: boolean) => void
+  onClose: () => void
+}
+
+// A key the player pressed that is already bound to another action, waiting for confirmation
+interface Conflict {
+  action: BindableAction
+  code: string
+  other: BindableAction
+}
+
+export default function ControlsSettings({
+  bindings,
+  onChange,
+  gamepadSettings,
+  onGamepadSettingsChange,
+  touchSettings,
+  onTouchSettingsChange,
+  autoFire,
+  onAutoFireChange,
+  onClose,
+}: ControlsSettingsProps) {
+  // Action waiting for a key press
+  const [listening, setListening] = useState<BindableAction | null>(null)
+  const [conflict, setConflict] = useState<Conflict | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Capture the next key press before the input manager or anything else sees it
+  useEffect(() => {
+    if (!listening) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      setListening(null)
+
+      if (RESERVED_KEYS[e.code]) {
+        setError(`${formatKey(e.code)} is reserved for ${RESERVED_KEYS[e.code]}`)
+        return
+      }
+
+      const other = findConflict(bindings, listening, e.code)
+      if (other) {
+        setConflict({ action: listening, code: e.code, other })
+      } else if (!bindings[listening].includes(e.code)) {
+        onChange(bindKey(bindings, listening, e.code))
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown, true)
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true)
+    }
+  }, [listening, bindings, onChange])
+
+  const startListening = (action: BindableAction) => {
+    setConflict(null)
+    setError(null)
+    setListening(action)
+  }
+
+  const replaceConflict = () => {
+    if (!conflict) return
+    onChange(bindKey(bindings, conflict.action, conflict.code))
+    setConflict(null)
+  }
+
+  const resetDefaults = () => {
+    setListening(null)
+    setConflict(null)
+    setError(null)
+    onChange(DEFAULT_KEY_BINDINGS)
+    onGamepadSettingsChange(DEFAULT_GAMEPAD_SETTINGS)
+    onTouchSettingsChange(DEFAULT_TOUCH_SETTINGS)
+    onAutoFireChange(true)
+  }
+
+  // Row of buttons picking one of a few options
+  const choice = <T extends string>(label: string, options: [T, string][], value: T, onPick: (value: T) => void) => (
+    <div className="flex items-center justify-between gap-3 py-1 text-sm text-gray-300">
+      {label}
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {options.map(([option, name]) => (
+          <button
+            key={option}
+            role="radio"
+            aria-checked={option === value}
+            onClick={() => onPick(option)}
+            className={`px-2 py-1 rounded transition-colors ${
+              option === value ? "bg-blue-500 text-white" : "bg-gray-900 text-gray-400 hover:text-white"
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Controls"
+      className="absolute inset-0 z-30 flex items-center justify-center bg-gray-900 bg-opacity-80"
+    >
+      <div className="bg-gray-800 bg-opacity-95 p-6 rounded-xl w-full max-w-md max-h-full overflow-y-auto">
+        <h1 className="text-3xl font-bold text-white mb-4 text-center">Controls</h1>
+
+        {choice(
+          "Auto-fire",
+          [
+            ["on", "On"],
+            ["off", "Off"],
+          ],
+          autoFire ? "on" : "off",
+          (value) => onAutoFireChange(value === "on"),
+        )}
+        <p className="mb-2 text-gray-500 text-xs">
+          {autoFire ? "Your ship fires on its own." : "Hold Fire to shoot. Dragging or steering by touch fires too."}
+        </p>
+
+        <table className="w-full text-sm">
+          <tbody>
+            {(Object.keys(ACTION_LABELS) as BindableAction[]).map((action) => (
+              <tr key={action} className="border-b border-gray-700 last:border-0">
+                <td className="py-2 pr-3 text-gray-300 whitespace-nowrap">{ACTION_LABELS[action]}</td>
+                <td className="py-2">
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {bindings[action].map((code) => (
+                      <button
+                        key={code}
+                        onClick={() => onChange(unbindKey(bindings, action, code))}
+                        className="px-2 py-1 bg-gray-700 text-white font-mono rounded hover:bg-red-600 transition-colors"
+                        aria-label={`Remove ${formatKey(code)} from ${ACTION_LABELS[action]}`}
+                        title="Remove"
+                      >
+                        {formatKey(code)}
+                      </button>
+                    ))}
+                    {bindings[action].length === 0 && <span className="px-2 py-1 text-gray-500">Unbound</span>}
+                    <button
+                      onClick={() => (listening === action ? setListening(null) : startListening(action))}
+                      className={`px-2 py-1 rounded transition-colors ${
+                        listening === action
+                          ? "bg-blue-500 text-white animate-pulse"
+                          : "bg-gray-900 text-gray-400 hover:text-white"
+                      }`}
+                      aria-label={`Add a key for ${ACTION_LABELS[action]}`}
+                    >
+                      {listening === action ? "Press a key..." : "+"}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {conflict && (
+          <div className="mt-4 p-3 bg-yellow-900 bg-opacity-50 rounded-lg text-sm text-yellow-200">
+            <p>
+              {formatKey(conflict.code)} is already bound to {ACTION_LABELS[conflict.other]}.
+            </p>
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={replaceConflict}
+                className="flex-1 px-3 py-1 bg-yellow-600 text-white font-bold rounded hover:bg-yellow-500 transition-colors"
+              >
+                Use for {ACTION_LABELS[conflict.action]}
+              </button>
+              <button
+                onClick={() => setConflict(null)}
+                className="flex-1 px-3 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        {error && <p className="mt-4 text-red-400 text-sm">{error}</p>}
+
+        <h2 className="mt-6 mb-2 text-lg font-bold text-white">Gamepad</h2>
+        <label className="flex items-center justify-between gap-3 py-1 text-sm text-gray-300">
+          Stick dead zone
+          <span className="flex items-center gap-2">
+            <input
+              type="range"
+              min={0}
+              max={MAX_DEAD_ZONE}
+              step={0.05}
+              value={gamepadSettings.deadZone}
+              onChange={(e) => onGamepadSettingsChange({ ...gamepadSettings, deadZone: Number(e.target.value) })}
+              className="w-32 accent-blue-500"
+            />
+            <span className="w-10 text-right font-mono">{Math.round(gamepadSettings.deadZone * 100)}%</span>
+          </span>
+        </label>
+        <label className="flex items-center justify-between gap-3 py-1 text-sm text-gray-300">
+          Stick sensitivity
+          <span className="flex items-center gap-2">
+            <input
+              type="range"
+              min={MIN_SENSITIVITY}
+              max={MAX_SENSITIVITY}
+              step={0.1}
+              value={gamepadSettings.sensitivity}
+              onChange={(e) => onGamepadSettingsChange({ ...gamepadSettings, sensitivity: Number(e.target.value) })}
+              className="w-32 accent-blue-500"
+            />
+            <span className="w-10 text-right font-mono">{gamepadSettings.sensitivity.toFixed(1)}x</span>
+          </span>
+        </label>
+        <p className="mt-1 text-gray-500 text-xs">
+          Left stick or D-pad moves, A fires, B or X drops a bomb, Start pauses. In menus the D-pad moves between
+          buttons and A selects.
+        </p>
+
+        <h2 className="mt-6 mb-2 text-lg font-bold text-white">Touch</h2>
+        {choice(
+          "Scheme",
+          TOUCH_SCHEMES.map((scheme) => [scheme, TOUCH_SCHEME_LABELS[scheme]]),
+          touchSettings.scheme,
+          (scheme) => onTouchSettingsChange({ ...touchSettings, scheme }),
+        )}
+        {touchSettings.scheme === "relative" && (
+          <label className="flex items-center justify-between gap-3 py-1 text-sm text-gray-300">
+            Drag sensitivity
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={MIN_TOUCH_SENSITIVITY}
+                max={MAX_TOUCH_SENSITIVITY}
+                step={0.1}
+                value={touchSettings.sensitivity}
+                onChange={(e) => onTouchSettingsChange({ ...touchSettings, sensitivity: Number(e.target.value) })}
+                className="w-32 accent-blue-500"
+              />
+              <span className="w-10 text-right font-mono">{touchSettings.sensitivity.toFixed(1)}x</span>
+            </span>
+          </label>
+        )}
+        {touchSettings.scheme === "joystick" && (
+          <>
+            {choice(
+              "Handedness",
+              [
+                ["left", "Left"],
+                ["right", "Right"],
+              ],
+              touchSettings.handedness,
+              (handedness) => onTouchSettingsChange({ ...touchSettings, handedness }),
+            )}
+            {choice(
+              "Joystick",
+              [
+                ["floating", "Under Thumb"],
+                ["fixed", "In Corner"],
+              ],
+              touchSettings.joystickPosition,
+              (joystickPosition) => onTouchSettingsChange({ ...touchSettings, joystickPosition }),
+            )}
+          </>
+        )}
+        <p className="mt-1 text-gray-500 text-xs">
+          {touchSettings.scheme === "relative"
+            ? "Drag anywhere and the ship moves with your finger."
+            : touchSettings.scheme === "follow"
+              ? "The ship sits just above your finger."
+              : `Touch the ${touchSettings.handedness} half of the screen to steer with a virtual joystick.`}
+        </p>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={resetDefaults}
+            className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-blue-500 text-white font-bold rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+        <p className="mt-3 text-gray-500 text-xs text-center">Click a key to remove it</p>
+      </div>
+    </div>
+  )
+}
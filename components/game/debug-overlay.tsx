@@ -0,0 +1,46 @@
+"use client"
+
+import type { DebugSnapshot } from "@/lib/runner/protocol"
+
+interface DebugOverlayProps {
+  stats: DebugSnapshot | null
+}
+
+export default function DebugOverlay({ stats }: DebugOverlayProps) {
+  const rows: [string, string][] = stats
+    ? [
+        ["FPS", String(stats.fps)],
+        ["Frame", `${stats.frameTime.toFixed(2)} ms`],
+        ["Tick", String(stats.tick)],
+        ["Bullets", `${stats.entities.bullets} (pool ${stats.pools.bullets})`],
+        ["Blocks", `${stats.entities.blocks} (pool ${stats.pools.blocks})`],
+        ["Power-ups", `${stats.entities.powerUps} (pool ${stats.pools.powerUps})`],
+        ["Enemy shots", `${stats.entities.enemyBullets} (pool ${stats.pools.enemyBullets})`],
+        ["Spawn rate", `${stats.difficulty.blockSpawnRate} ms`],
+        ["Fall speed", `${stats.difficulty.blockFallSpeed} u/s`],
+        ["Wave size", String(stats.difficulty.blocksPerWave)],
+        ["Block HP", `${stats.difficulty.minBlockHp}-${stats.difficulty.maxBlockHp}`],
+        ["Boss HP", String(stats.difficulty.bossHp)],
+      ]
+    : []
+
+  return (
+    <div className="absolute top-16 right-4 z-20 bg-black bg-opacity-75 px-3 py-2 rounded-lg font-mono text-xs text-green-400 pointer-events-none">
+      {stats ? (
+        <table>
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pr-3 text-gray-400">{label}</td>
+                <td className="text-right">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <span>Waiting for frames...</span>
+      )}
+      <p className="mt-1 text-gray-500">` or F3 to close</p>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { DIFFICULTY_PRESETS } from "@/lib/engine"
+
+interface DifficultyPickerProps {
+  value: string
+  onChange: (id: string) => void
+}
+
+export default function DifficultyPicker({ value, onChange }: DifficultyPickerProps) {
+  return (
+    <div className="flex justify-center gap-2" role="radiogroup" aria-label="Difficulty">
+      {DIFFICULTY_PRESETS.map((profile) => (
+        <button
+          key={profile.id}
+          role="radio"
+          aria-checked={profile.id === value}
+          onClick={() => onChange(profile.id)}
+          className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors ${
+            profile.id === value ? "bg-blue-500 text-white" : "bg-gray-800 text-gray-400 hover:text-white"
+          }`}
+        >
+          {profile.name}
+        </button>
+      ))}
+    </div>
+  )
+}
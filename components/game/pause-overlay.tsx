@@ -0,0 +1,52 @@
+"use client"
+
+interface PauseOverlayProps {
+  resumeKeys: string[] // Names of the keys bound to pause
+  onResume: () => void
+  onRestart: () => void
+  onControls: () => void
+  onQuit: () => void
+}
+
+export default function PauseOverlay({ resumeKeys, onResume, onRestart, onControls, onQuit }: PauseOverlayProps) {
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Paused"
+      className="absolute inset-0 z-20 flex items-center justify-center bg-gray-900 bg-opacity-60"
+    >
+      <div className="text-center bg-gray-800 bg-opacity-90 p-8 rounded-xl flex flex-col gap-3 min-w-64">
+        <h1 className="text-4xl font-bold text-white mb-4">Paused</h1>
+        <button
+          onClick={onResume}
+          autoFocus
+          className="px-8 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          Resume
+        </button>
+        <button
+          onClick={onRestart}
+          className="px-8 py-3 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Restart
+        </button>
+        <button
+          onClick={onControls}
+          className="px-8 py-3 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Controls
+        </button>
+        <button
+          onClick={onQuit}
+          className="px-8 py-3 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Quit
+        </button>
+        {resumeKeys.length > 0 && (
+          <p className="text-gray-400 text-sm mt-2">Press {resumeKeys.join(" or ")} to resume</p>
+        )}
+      </div>
+    </div>
+  )
+}
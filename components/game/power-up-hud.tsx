@@ -0,0 +1,58 @@
+"use client"
+
+import { POWER_UP_TYPES, type PowerUpType } from "@/lib/engine"
+import { POWER_UP_STYLES } from "@/lib/render/canvas-renderer"
+
+interface PowerUpHudProps {
+  timeLeft: Record<PowerUpType, number> // Whole seconds left, 0 when inactive
+  bombs: number
+  bombKeys: string[] // Names of the keys bound to the bomb
+  onBomb: (held: boolean) => void // The on-screen bomb button was pressed or released
+}
+
+const POWER_UP_LABELS: Record<PowerUpType, string> = {
+  fireSpeed: "Fire Speed",
+  multiDirectional: "Multi-Fire",
+  slowMotion: "Slow-Mo",
+  shield: "Shield",
+  piercing: "Piercing",
+  homing: "Homing",
+  bomb: "Bomb",
+  magnet: "Magnet",
+  scoreMultiplier: "Score x2",
+  laser: "Laser",
+}
+
+export default function PowerUpHud({ timeLeft, bombs, bombKeys, onBomb }: PowerUpHudProps) {
+  return (
+    <>
+      {/* Active power-ups */}
+      <div className="absolute top-16 left-4 flex flex-col gap-2 pointer-events-none">
+        {POWER_UP_TYPES.filter((type) => timeLeft[type] > 0).map((type) => (
+          <div key={type} className="bg-gray-800 bg-opacity-75 px-3 py-1 rounded-lg flex items-center gap-2">
+            <span className="text-white">{POWER_UP_STYLES[type].icon}</span>
+            <span className="text-white text-sm">
+              {POWER_UP_LABELS[type]}: {timeLeft[type]}s
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Bomb stock, doubling as the button to drop one on touch screens */}
+      {bombs > 0 && (
+        <button
+          className="absolute bottom-4 left-4 z-10 bg-gray-800 bg-opacity-75 px-3 py-2 rounded-lg flex items-center gap-2 text-white select-none touch-none"
+          aria-label={`Drop a bomb, ${bombs} left`}
+          title={bombKeys.length > 0 ? `Bomb (${bombKeys.join(" / ")})` : "Bomb"}
+          onPointerDown={() => onBomb(true)}
+          onPointerUp={() => onBomb(false)}
+          onPointerCancel={() => onBomb(false)}
+          onPointerLeave={() => onBomb(false)}
+        >
+          <span>{POWER_UP_STYLES.bomb.icon}</span>
+          <span className="font-bold">x{bombs}</span>
+        </button>
+      )}
+    </>
+  )
+}
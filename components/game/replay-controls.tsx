@@ -0,0 +1,80 @@
+"use client"
+
+import { Pause, Play, X } from "lucide-react"
+import { FIXED_STEP } from "@/lib/engine"
+
+// Playback speeds offered in the replay viewer
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4]
+
+interface ReplayControlsProps {
+  tick: number
+  totalTicks: number
+  isPlaying: boolean
+  speed: number
+  onTogglePlay: () => void
+  onSeek: (tick: number) => void
+  onSpeedChange: (speed: number) => void
+  onExit: () => void
+}
+
+// Format a tick count as m:ss of game time
+function formatTicks(ticks: number) {
+  const seconds = Math.floor((ticks * FIXED_STEP) / 1000)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`
+}
+
+export default function ReplayControls({
+  tick,
+  totalTicks,
+  isPlaying,
+  speed,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="absolute bottom-4 left-4 right-4 z-10 bg-gray-800 bg-opacity-90 px-4 py-3 rounded-xl flex items-center gap-3">
+      <button
+        onClick={onTogglePlay}
+        className="p-2 rounded-full bg-blue-500 hover:bg-blue-600 transition-colors"
+        aria-label={isPlaying ? "Pause replay" : "Play replay"}
+      >
+        {isPlaying ? <Pause className="w-5 h-5 text-white" /> : <Play className="w-5 h-5 text-white" />}
+      </button>
+
+      <span className="text-white text-sm tabular-nums">{formatTicks(tick)}</span>
+      <input
+        type="range"
+        min={0}
+        max={totalTicks}
+        value={tick}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+        aria-label="Seek"
+      />
+      <span className="text-white text-sm tabular-nums">{formatTicks(totalTicks)}</span>
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="bg-gray-900 text-white text-sm rounded-lg px-2 py-1"
+        aria-label="Playback speed"
+      >
+        {REPLAY_SPEEDS.map((option) => (
+          <option key={option} value={option}>
+            {option}x
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={onExit}
+        className="p-2 rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
+        aria-label="Exit replay"
+      >
+        <X className="w-5 h-5 text-white" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useImperativeHandle, useState, type Ref } from "react"
+import type { JoystickView } from "@/lib/input/input-manager"
+import { JOYSTICK_MARGIN, JOYSTICK_RADIUS, type Handedness } from "@/lib/input/touch"
+
+// Lets the input manager move the stick without re-rendering the whole game
+export interface VirtualJoystickHandle {
+  update: (joystick: JoystickView | null) => void
+}
+
+interface VirtualJoystickProps {
+  ref: Ref<VirtualJoystickHandle>
+  fixed: boolean // Show the resting stick in its corner
+  handedness: Handedness
+}
+
+const KNOB_RADIUS = JOYSTICK_RADIUS / 2.5
+
+export default function VirtualJoystick({ ref, fixed, handedness }: VirtualJoystickProps) {
+  const [joystick, setJoystick] = useState<JoystickView | null>(null)
+
+  useImperativeHandle(ref, () => ({ update: setJoystick }), [])
+
+  if (!joystick) {
+    if (!fixed) return null
+    return (
+      <div
+        className="absolute z-10 rounded-full border-2 border-white border-opacity-20 pointer-events-none"
+        style={{
+          width: JOYSTICK_RADIUS * 2,
+          height: JOYSTICK_RADIUS * 2,
+          bottom: JOYSTICK_MARGIN,
+          [handedness]: JOYSTICK_MARGIN,
+        }}
+      />
+    )
+  }
+
+  // Client coordinates, so fixed positioning lines up with the touch
+  return (
+    <div className="fixed inset-0 z-10 pointer-events-none">
+      <div
+        className="absolute rounded-full bg-white bg-opacity-10 border-2 border-white border-opacity-40"
+        style={{
+          width: JOYSTICK_RADIUS * 2,
+          height: JOYSTICK_RADIUS * 2,
+          left: joystick.center.x - JOYSTICK_RADIUS,
+          top: joystick.center.y - JOYSTICK_RADIUS,
+        }}
+      />
+      <div
+        className="absolute rounded-full bg-white bg-opacity-60"
+        style={{
+          width: KNOB_RADIUS * 2,
+          height: KNOB_RADIUS * 2,
+          left: joystick.knob.x - KNOB_RADIUS,
+          top: joystick.knob.y - KNOB_RADIUS,
+        }}
+      />
+    </div>
+  )
+}
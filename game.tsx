@@ -3,37 +3,39 @@
 import type React from "react"
 
 import { useEffect, useRef, useState, useCallback } from "react"
-import { Volume2, VolumeX, Maximize, Minimize } from "lucide-react"
-
-// Define interfaces for game objects
-interface Bullet {
-  id: number
-  x: number
-  y: number
-  angle?: number // For multi-directional fire
-}
-
-interface Block {
-  id: number
-  x: number
-  y: number
-  hp: number
-  isHit?: boolean
-  isBreakable: boolean
-}
-
-interface PowerUp {
-  id: number
-  x: number
-  y: number
-  type: PowerUpType
-}
-
-// Power-up types
-type PowerUpType = "fireSpeed" | "multiDirectional" | "slowMotion"
+import { Volume2, VolumeX, Maximize, Minimize, Pause, Bot, Heart } from "lucide-react"
+import PauseOverlay from "@/components/game/pause-overlay"
+import ControlsSettings from "@/components/game/controls-settings"
+import VirtualJoystick, { type VirtualJoystickHandle } from "@/components/game/virtual-joystick"
+import DebugOverlay from "@/components/game/debug-overlay"
+import BossHud from "@/components/game/boss-hud"
+import PowerUpHud from "@/components/game/power-up-hud"
+import DifficultyPicker from "@/components/game/difficulty-picker"
+import ReplayControls from "@/components/game/replay-controls"
+import { fitViewport, screenToWorld } from "@/lib/render/viewport"
+import { formatKey, parseKeyBindings, type CommandAction, type KeyBindings } from "@/lib/input/bindings"
+import { parseGamepadSettings, type GamepadSettings } from "@/lib/input/gamepad"
+import { createInputManager, type InputManager } from "@/lib/input/input-manager"
+import { parseTouchSettings, type TouchSettings } from "@/lib/input/touch"
+import { createGameHost, type GameHost } from "@/lib/runner/host"
+import type { DebugSnapshot, HudSnapshot, RunnerMessage } from "@/lib/runner/protocol"
+import {
+  createEventBus,
+  DEFAULT_DIFFICULTY,
+  getDifficultyPreset,
+  parseReplay,
+  parseSeed,
+  POWER_UP_TYPES,
+  randomSeed,
+  serializeReplay,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+  type PowerUpType,
+  type Replay,
+} from "@/lib/engine"
 
 // Game states
-type GameState = "notStarted" | "playing" | "gameOver"
+type GameState = "notStarted" | "playing" | "paused" | "gameOver" | "replay"
 
 // Audio files
 const AUDIO_FILES = {
@@ -44,41 +46,19 @@ const AUDIO_FILES = {
   gameOver: "/assets/sounds/game_over.mp3",
 }
 
-export default function Game() {
-  // 1. Optimize object creation by implementing object pooling for bullets
-  // Add this near the top of the component, with other refs
-  const bulletPoolRef = useRef<Bullet[]>([])
-  const MAX_BULLETS = 100 // Maximum bullets to keep in memory
+// Beyond this many lives the HUD shows a count instead of a heart per life
+const MAX_HEART_ICONS = 5
 
+export default function Game() {
   // Game state
   const [gameState, setGameState] = useState<GameState>("notStarted")
   const [gameOverEffect, setGameOverEffect] = useState(false)
-  const [gameTime, setGameTime] = useState(0) // Track game time in seconds
-
-  // Difficulty progression
-  const [blockSpawnRate, setBlockSpawnRate] = useState(2000) // ms between block spawns
-  const [blockFallSpeed, setBlockFallSpeed] = useState(3) // pixels per frame
-  const [blocksPerWave, setBlocksPerWave] = useState(1) // blocks spawned per wave
-
-  // Power-up system
-  const [activePowerUps, setActivePowerUps] = useState<{
-    fireSpeed: boolean
-    multiDirectional: boolean
-    slowMotion: boolean
-  }>({
-    fireSpeed: false,
-    multiDirectional: false,
-    slowMotion: false,
-  })
-  const [powerUpTimeLeft, setPowerUpTimeLeft] = useState<{
-    fireSpeed: number
-    multiDirectional: number
-    slowMotion: number
-  }>({
-    fireSpeed: 0,
-    multiDirectional: 0,
-    slowMotion: 0,
-  })
+
+  // Power-up HUD, in whole seconds left, and the bomb stock
+  const [powerUpTimeLeft, setPowerUpTimeLeft] = useState(
+    () => Object.fromEntries(POWER_UP_TYPES.map((type) => [type, 0])) as Record<PowerUpType, number>,
+  )
+  const [bombs, setBombs] = useState(0)
 
   // Audio state
   const [isMuted, setIsMuted] = useState(() => {
@@ -92,56 +72,65 @@ export default function Game() {
   const [audioLoaded, setAudioLoaded] = useState(false)
   const [isFullscreen, setIsFullscreen] = useState(false)
 
-  const [position, setPosition] = useState({ x: 0, y: 0 })
-  const [isDragging, setIsDragging] = useState(false)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
-  const [keys, setKeys] = useState({
-    ArrowUp: false,
-    ArrowDown: false,
-    ArrowLeft: false,
-    ArrowRight: false,
-    w: false,
-    a: false,
-    s: false,
-    d: false,
-  })
+  // Seed of the current run and the seed typed in by the player
+  const [seed, setSeed] = useState<number | null>(null)
+  const [seedInput, setSeedInput] = useState("")
+
+  // Difficulty preset chosen on the start screen
+  const [difficultyId, setDifficultyId] = useState(DEFAULT_DIFFICULTY.id)
+
+  // Let the autopilot fly, e.g. for balance testing
+  const [autopilot, setAutopilot] = useState(false)
+
+  // Developer overlay with live metrics and hitboxes
+  const [showDebug, setShowDebug] = useState(false)
+  const [debugStats, setDebugStats] = useState<DebugSnapshot | null>(null)
 
-  // Game objects state - use refs for performance
-  const bulletsRef = useRef<Bullet[]>([])
-  const blocksRef = useRef<Block[]>([])
-  const powerUpsRef = useRef<PowerUp[]>([])
+  // The simulation and rendering run in a worker, the component forwards input and shows the HUD
+  const hostRef = useRef<GameHost | null>(null)
+  const runnerMessageRef = useRef<(message: RunnerMessage) => void>(() => {})
 
-  // State for rendering only - updated less frequently
-  const [bullets, setBullets] = useState<Bullet[]>([])
-  const [blocks, setBlocks] = useState<Block[]>([])
-  const [powerUps, setPowerUps] = useState<PowerUp[]>([])
+  // Keyboard, pointer, touch and gamepad input, mapped to actions outside React
+  const inputManagerRef = useRef<InputManager | null>(null)
+  const commandRef = useRef<(action: CommandAction) => void>(() => {})
+
+  // Key bindings, saved next to the mute setting
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(() =>
+    parseKeyBindings(typeof window !== "undefined" ? localStorage.getItem("gameKeyBindings") : null),
+  )
+  const [gamepadSettings, setGamepadSettings] = useState<GamepadSettings>(() =>
+    parseGamepadSettings(typeof window !== "undefined" ? localStorage.getItem("gameGamepadSettings") : null),
+  )
+  const [touchSettings, setTouchSettings] = useState<TouchSettings>(() =>
+    parseTouchSettings(typeof window !== "undefined" ? localStorage.getItem("gameTouchSettings") : null),
+  )
+  // On unless turned off, so the ship fires by itself
+  const [autoFire, setAutoFire] = useState(
+    () => typeof window === "undefined" || localStorage.getItem("gameAutoFire") !== "false",
+  )
+  const [showControls, setShowControls] = useState(false)
+  const joystickRef = useRef<VirtualJoystickHandle>(null)
+
+  // Engine events from the runner are re-emitted here for audio, haptics and anything else to subscribe to
+  const [eventBus] = useState(createEventBus)
+
+  // Replay playback
+  const replayRef = useRef<Replay | null>(null) // Last finished or loaded replay
+  const replayExitStateRef = useRef<GameState>("notStarted")
+  const [replayTick, setReplayTick] = useState(0)
+  const [replayTotalTicks, setReplayTotalTicks] = useState(0)
+  const [replayPlaying, setReplayPlaying] = useState(false)
+  const [replaySpeed, setReplaySpeed] = useState(1)
+  const [replayError, setReplayError] = useState<string | null>(null)
+
+  // HUD state, sent by the runner whenever it changes
   const [score, setScore] = useState(0)
+  const [lives, setLives] = useState(0)
+  const [bossWarning, setBossWarning] = useState(false)
+  const [boss, setBoss] = useState<HudSnapshot["boss"]>(null)
 
-  // Refs for generating unique IDs and tracking current position
-  const bulletIdRef = useRef(0)
-  const blockIdRef = useRef(0)
-  const powerUpIdRef = useRef(0)
-  const positionRef = useRef(position)
   const finalScoreRef = useRef(0)
   const lastFireSoundTime = useRef(0)
-  const lastFireTimeRef = useRef(0)
-  const scoreRef = useRef(0)
-  const gameStateRef = useRef<GameState>("notStarted")
-  const blockFallSpeedRef = useRef(3)
-  const activePowerUpsRef = useRef({
-    fireSpeed: false,
-    multiDirectional: false,
-    slowMotion: false,
-  })
-
-  // Animation frame IDs for proper cleanup
-  const animationFrameIds = useRef<{
-    player?: number
-    bullets?: number
-    objects?: number
-    collisions?: number
-    playerCollisions?: number
-  }>({})
 
   // Audio refs
   const gameStartSoundRef = useRef<HTMLAudioElement | null>(null)
@@ -149,13 +138,14 @@ export default function Game() {
   const fireSoundRef = useRef<HTMLAudioElement | null>(null)
   const hitSoundRef = useRef<HTMLAudioElement | null>(null)
   const gameOverSoundRef = useRef<HTMLAudioElement | null>(null)
+  // Pending start of the background music once the startup sound ends
+  const bgmTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const gameContainerRef = useRef<HTMLDivElement>(null)
-  const playerRef = useRef<HTMLDivElement>(null)
+  const canvasContainerRef = useRef<HTMLDivElement>(null)
 
-  // Render throttling for performance
-  const renderIntervalRef = useRef<NodeJS.Timeout | null>(null)
-  const needsRenderRef = useRef(false)
+  // Container bounds in CSS pixels, refreshed on resize and orientation change
+  const containerRectRef = useRef({ left: 0, top: 0, width: 0, height: 0 })
 
   // Audio play functions with robust error handling
   const playSound = useCallback(
@@ -184,83 +174,21 @@ export default function Game() {
     [isMuted, audioLoaded],
   )
 
-  // 2. Optimize collision detection by using a spatial grid
-  // Add this function after the component declaration but before other functions
-  const createBullet = useCallback((x: number, y: number, angle = 0): Bullet => {
-    // Reuse a bullet from the pool if available
-    if (bulletPoolRef.current.length > 0) {
-      const bullet = bulletPoolRef.current.pop()!
-      bullet.x = x
-      bullet.y = y
-      bullet.angle = angle
-      return bullet
-    }
-
-    // Create a new bullet if pool is empty
-    return { id: bulletIdRef.current++, x, y, angle }
-  }, [])
-
-  // Spawn power-up function - defined early to avoid reference errors
-  const spawnPowerUp = useCallback(() => {
-    if (gameContainerRef.current && gameStateRef.current === "playing") {
-      const containerWidth = gameContainerRef.current.clientWidth
-      const powerUpWidth = 30 // Width of the power-up
-
-      // Random horizontal position within screen bounds
-      const powerUpX = Math.random() * (containerWidth - powerUpWidth)
-
-      // Random power-up type
-      const powerUpTypes: PowerUpType[] = ["fireSpeed", "multiDirectional", "slowMotion"]
-      const randomType = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)]
-
-      const newPowerUp = {
-        id: powerUpIdRef.current,
-        x: powerUpX,
-        y: -50, // Start above the screen
-        type: randomType,
-      }
-
-      powerUpsRef.current = [...powerUpsRef.current, newPowerUp]
-      powerUpIdRef.current += 1
-      needsRenderRef.current = true
-    }
-  }, [])
-
-  // Activate power-up function
-  const activatePowerUp = useCallback((type: PowerUpType) => {
-    // Set power-up as active
-    setActivePowerUps((prev) => {
-      const updated = {
-        ...prev,
-        [type]: true,
-      }
-      activePowerUpsRef.current = updated
-      return updated
-    })
-
-    // Set duration based on type
-    setPowerUpTimeLeft((prev) => ({
-      ...prev,
-      [type]: type === "slowMotion" ? 5 : 10, // slowMotion: 5s, others: 10s
-    }))
+  const cancelBgmStart = useCallback(() => {
+    if (bgmTimerRef.current !== null) clearTimeout(bgmTimerRef.current)
+    bgmTimerRef.current = null
   }, [])
 
   // Game over function
   const triggerGameOver = useCallback(() => {
-    // Cancel all animation frames
-    Object.values(animationFrameIds.current).forEach((id) => {
-      if (id) cancelAnimationFrame(id)
-    })
-    animationFrameIds.current = {}
-
     setGameState("gameOver")
-    gameStateRef.current = "gameOver"
     setGameOverEffect(true)
 
     // Play game over sound
     playSound(gameOverSoundRef)
 
     // Stop background music
+    cancelBgmStart()
     if (bgmSoundRef.current) {
       bgmSoundRef.current.pause()
     }
@@ -269,7 +197,7 @@ export default function Game() {
     setTimeout(() => {
       setGameOverEffect(false)
     }, 300)
-  }, [playSound])
+  }, [playSound, cancelBgmStart])
 
   const playFireSound = useCallback(() => {
     // Throttle fire sound to prevent overlapping when firing rapidly
@@ -314,65 +242,12 @@ export default function Game() {
     }
   }, [])
 
-  // Handle touch/mouse events for dragging
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent | React.MouseEvent) => {
-      if (gameState !== "playing") return
-
-      setIsDragging(true)
-
-      // Get touch or mouse position
-      const clientX = "touches" in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX
-      const clientY = "touches" in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY
-
-      // Store the offset between touch point and player position
-      setDragStart({
-        x: clientX - positionRef.current.x,
-        y: clientY - positionRef.current.y,
-      })
-    },
-    [gameState],
-  )
-
-  const handleTouchMove = useCallback(
-    (e: React.TouchEvent | React.MouseEvent) => {
-      if (!isDragging || gameState !== "playing" || !playerRef.current || !gameContainerRef.current) return
-
-      e.preventDefault() // Prevent scrolling while dragging
-
-      // Get touch or mouse position
-      const clientX = "touches" in e ? e.touches[0].clientX : (e as React.MouseEvent).clientX
-      const clientY = "touches" in e ? e.touches[0].clientY : (e as React.MouseEvent).clientY
-
-      // Calculate new position
-      let newX = clientX - dragStart.x
-      let newY = clientY - dragStart.y
-
-      // Clamp position within screen boundaries
-      const containerWidth = gameContainerRef.current.clientWidth
-      const containerHeight = gameContainerRef.current.clientHeight
-      const playerWidth = playerRef.current.clientWidth
-      const playerHeight = playerRef.current.clientHeight
-
-      newX = Math.max(0, Math.min(containerWidth - playerWidth, newX))
-      newY = Math.max(0, Math.min(containerHeight - playerHeight, newY))
-
-      // Update position ref directly without state update
-      positionRef.current = { x: newX, y: newY }
-
-      // Apply transform directly to DOM for immediate visual feedback
-      playerRef.current.style.transform = `translate(${newX}px, ${newY}px)`
-    },
-    [isDragging, gameState, dragStart],
-  )
-
-  const handleTouchEnd = useCallback(() => {
-    if (isDragging) {
-      // Only update React state once at the end of dragging
-      setPosition(positionRef.current)
-      setIsDragging(false)
-    }
-  }, [isDragging])
+  // Convert a pointer position into world units through the current viewport
+  const getWorldPoint = useCallback((clientX: number, clientY: number) => {
+    const rect = containerRectRef.current
+    const viewport = fitViewport(rect.width, rect.height, WORLD_WIDTH, WORLD_HEIGHT)
+    return screenToWorld(viewport, clientX - rect.left, clientY - rect.top)
+  }, [])
 
   // Initialize audio with robust error handling
   useEffect(() => {
@@ -412,6 +287,7 @@ export default function Game() {
 
     return () => {
       // Clean up audio when component unmounts
+      if (bgmTimerRef.current !== null) clearTimeout(bgmTimerRef.current)
       if (bgmSoundRef.current) {
         bgmSoundRef.current.pause()
       }
@@ -431,750 +307,360 @@ export default function Game() {
     }
   }, [])
 
-  // Update mute state in localStorage
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      localStorage.setItem("gameMuted", isMuted.toString())
-    }
-  }, [isMuted])
-
-  // 6. Optimize the render throttling for better performance
-  // Replace the useEffect for render throttling with this
+  // Start the game runner, in a worker where OffscreenCanvas is supported
   useEffect(() => {
-    // Use a more efficient render strategy with RAF instead of setInterval
-    let rafId: number | null = null
-
-    const updateRender = () => {
-      if (needsRenderRef.current && gameStateRef.current === "playing") {
-        setBullets([...bulletsRef.current])
-        setBlocks([...blocksRef.current])
-        setPowerUps([...powerUpsRef.current])
-        setScore(scoreRef.current)
-        needsRenderRef.current = false
-      }
-      rafId = requestAnimationFrame(updateRender)
-    }
+    if (!canvasContainerRef.current) return
 
-    rafId = requestAnimationFrame(updateRender)
+    const host = createGameHost(canvasContainerRef.current, (message) => runnerMessageRef.current(message))
+    hostRef.current = host
 
     return () => {
-      if (rafId !== null) {
-        cancelAnimationFrame(rafId)
-      }
+      host.dispose()
+      hostRef.current = null
     }
   }, [])
 
-  // Update refs when state changes
+  // Attract mode - the autopilot plays a demo behind the title screen
   useEffect(() => {
-    gameStateRef.current = gameState
+    if (gameState === "notStarted") hostRef.current?.send({ type: "attract" })
   }, [gameState])
 
   useEffect(() => {
-    positionRef.current = position
-  }, [position])
+    hostRef.current?.send({ type: "autopilot", enabled: autopilot })
+  }, [autopilot])
 
-  useEffect(() => {
-    blockFallSpeedRef.current = blockFallSpeed
-  }, [blockFallSpeed])
+  const toggleAutopilot = useCallback(() => setAutopilot((prev) => !prev), [])
 
   useEffect(() => {
-    activePowerUpsRef.current = activePowerUps
-  }, [activePowerUps])
+    setDebugStats(null)
+    hostRef.current?.send({ type: "debug", enabled: showDebug })
+  }, [showDebug])
 
-  // Game timer - track elapsed time and handle difficulty progression
+  // Backquote or F3 toggles the debug overlay, in any state
   useEffect(() => {
-    if (gameState !== "playing") return
-
-    const gameTimerInterval = setInterval(() => {
-      setGameTime((prevTime) => {
-        const newTime = prevTime + 1
-
-        // Increase blocks per wave every 10 seconds (max 5)
-        if (newTime % 10 === 0 && blocksPerWave < 5) {
-          setBlocksPerWave((prev) => Math.min(prev + 1, 5))
-        }
-
-        // Increase fall speed every 15 seconds
-        if (newTime % 15 === 0) {
-          setBlockFallSpeed((prev) => prev + 0.5)
-        }
-
-        // Decrease spawn rate every 20 seconds (min 500ms)
-        if (newTime % 20 === 0 && blockSpawnRate > 500) {
-          setBlockSpawnRate((prev) => Math.max(prev - 300, 500))
-        }
-
-        // Spawn power-up every 20 seconds
-        if (newTime % 20 === 0) {
-          spawnPowerUp()
-        }
-
-        return newTime
-      })
-    }, 1000)
-
-    return () => clearInterval(gameTimerInterval)
-  }, [gameState, blocksPerWave, blockSpawnRate, spawnPowerUp])
-
-  // Power-up timers
-  useEffect(() => {
-    if (gameState !== "playing") return
-
-    const powerUpTimerInterval = setInterval(() => {
-      setPowerUpTimeLeft((prev) => {
-        const newTimeLeft = {
-          fireSpeed: Math.max(0, prev.fireSpeed - 1),
-          multiDirectional: Math.max(0, prev.multiDirectional - 1),
-          slowMotion: Math.max(0, prev.slowMotion - 1),
-        }
-
-        // Deactivate power-ups when time runs out
-        setActivePowerUps((activePrev) => ({
-          fireSpeed: newTimeLeft.fireSpeed > 0,
-          multiDirectional: newTimeLeft.multiDirectional > 0,
-          slowMotion: newTimeLeft.slowMotion > 0,
-        }))
-
-        return newTimeLeft
-      })
-    }, 1000)
-
-    return () => clearInterval(powerUpTimerInterval)
-  }, [gameState])
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || (e.code !== "Backquote" && e.code !== "F3")) return
+      if (e.target instanceof HTMLInputElement) return // Let the seed field take a backquote
 
-  // Update final score ref when game ends
-  useEffect(() => {
-    if (gameState === "gameOver") {
-      finalScoreRef.current = score
+      e.preventDefault()
+      setShowDebug((prev) => !prev)
     }
-  }, [gameState, score])
 
-  // Clean up all animation frames when component unmounts or game state changes
-  useEffect(() => {
+    window.addEventListener("keydown", handleKeyDown)
+
     return () => {
-      // Cancel all animation frames
-      Object.values(animationFrameIds.current).forEach((id) => {
-        if (id) cancelAnimationFrame(id)
-      })
-
-      // Clear all intervals
-      if (renderIntervalRef.current) {
-        clearInterval(renderIntervalRef.current)
-      }
+      window.removeEventListener("keydown", handleKeyDown)
     }
   }, [])
 
-  // Reset game state when game ends
-  useEffect(() => {
-    if (gameState !== "playing") {
-      // Cancel all animation frames
-      Object.values(animationFrameIds.current).forEach((id) => {
-        if (id) cancelAnimationFrame(id)
-      })
-      animationFrameIds.current = {}
-    }
-  }, [gameState])
-
-  // Optimize touch events
+  // Track the container size - the world keeps its logical size and the viewport rescales to fit
   useEffect(() => {
-    if (!gameContainerRef.current) return
-
-    const container = gameContainerRef.current
-
-    // Custom event handlers with passive: false
-    const touchStartHandler = (e: TouchEvent) => {
-      if (gameState !== "playing") return
-      handleTouchStart(e as unknown as React.TouchEvent)
-    }
-
-    const touchMoveHandler = (e: TouchEvent) => {
-      if (!isDragging || gameState !== "playing") return
-      e.preventDefault() // Prevent scrolling
-      handleTouchMove(e as unknown as React.TouchEvent)
-    }
-
-    const touchEndHandler = () => {
-      handleTouchEnd()
+    const measure = () => {
+      if (!gameContainerRef.current) return
+      const { left, top, width, height } = gameContainerRef.current.getBoundingClientRect()
+      containerRectRef.current = { left, top, width, height }
+      hostRef.current?.send({ type: "resize", width, height, pixelRatio: window.devicePixelRatio || 1 })
     }
 
-    // Add event listeners with passive: false for touchmove
-    container.addEventListener("touchstart", touchStartHandler, { passive: true })
-    container.addEventListener("touchmove", touchMoveHandler, { passive: false })
-    container.addEventListener("touchend", touchEndHandler)
+    measure()
+    window.addEventListener("resize", measure)
+    window.addEventListener("orientationchange", measure)
+    document.addEventListener("fullscreenchange", measure)
 
     return () => {
-      // Clean up
-      container.removeEventListener("touchstart", touchStartHandler)
-      container.removeEventListener("touchmove", touchMoveHandler)
-      container.removeEventListener("touchend", touchEndHandler)
+      window.removeEventListener("resize", measure)
+      window.removeEventListener("orientationchange", measure)
+      document.removeEventListener("fullscreenchange", measure)
     }
-  }, [gameState, isDragging, handleTouchStart, handleTouchMove, handleTouchEnd])
-
-  // 3. Optimize the fireBullet function to use object pooling
-  // Replace the fireBullet function with this optimized version
-  const fireBullet = useCallback(() => {
-    if (playerRef.current && gameStateRef.current === "playing") {
-      const playerWidth = playerRef.current.clientWidth
-      const currentPosition = positionRef.current
-      const now = Date.now()
-
-      // Check fire rate based on power-up
-      const fireRate = activePowerUpsRef.current.fireSpeed ? 100 : 200
-      if (now - lastFireTimeRef.current < fireRate) return
-      lastFireTimeRef.current = now
-
-      // Calculate bullet position from the top-center of the fighter plane
-      const bulletX = currentPosition.x + playerWidth / 2 - 4
-      const bulletY = currentPosition.y - 8
-
-      if (activePowerUpsRef.current.multiDirectional) {
-        // Fire 3 bullets in different directions
-        bulletsRef.current.push(
-          createBullet(bulletX, bulletY, 0),
-          createBullet(bulletX - 8, bulletY, -30),
-          createBullet(bulletX + 8, bulletY, 30),
-        )
-      } else {
-        // Fire single bullet
-        bulletsRef.current.push(createBullet(bulletX, bulletY, 0))
-      }
-
-      // Play fire sound
-      playFireSound()
-      needsRenderRef.current = true
-    }
-  }, [playFireSound, createBullet])
+  }, [])
 
-  // Add automatic firing effect
+  // Update mute state in localStorage
   useEffect(() => {
-    if (gameState !== "playing") return
-
-    const firingInterval = setInterval(() => {
-      fireBullet()
-    }, 50) // Check frequently, but actual firing is controlled by fireBullet
-
-    return () => clearInterval(firingInterval)
-  }, [gameState, fireBullet])
-
-  // Block spawning logic
-  const spawnBlock = useCallback(() => {
-    if (gameContainerRef.current && gameStateRef.current === "playing") {
-      const containerWidth = gameContainerRef.current.clientWidth
-      const blockWidth = 40 // Width of the block
-
-      // Spawn multiple blocks based on blocksPerWave
-      for (let i = 0; i < blocksPerWave; i++) {
-        // Random horizontal position within screen bounds with spacing
-        const blockX = Math.random() * (containerWidth - blockWidth)
-
-        // Random HP between 1 and 10
-        const blockHp = Math.floor(Math.random() * 10) + 1
-
-        // Small chance for unbreakable block (10%)
-        const isBreakable = Math.random() > 0.1
-
-        const newBlock = {
-          id: blockIdRef.current,
-          x: blockX,
-          y: -50 - i * 60, // Start above the screen with spacing between blocks
-          hp: isBreakable ? blockHp : 999, // Unbreakable blocks have very high HP
-          isHit: false,
-          isBreakable,
-        }
-
-        blocksRef.current = [...blocksRef.current, newBlock]
-        blockIdRef.current += 1
-      }
-
-      needsRenderRef.current = true
+    if (typeof window !== "undefined") {
+      localStorage.setItem("gameMuted", isMuted.toString())
     }
-  }, [blocksPerWave])
+  }, [isMuted])
 
-  // Block spawning effect
+  // Forward input actions to the runner as they change
   useEffect(() => {
-    if (gameState !== "playing") return
+    if (!gameContainerRef.current) return
 
-    const blockInterval = setInterval(spawnBlock, blockSpawnRate)
+    const manager = createInputManager({
+      element: gameContainerRef.current,
+      toWorld: getWorldPoint,
+      onChange: (actions) => hostRef.current?.send({ type: "input", actions }),
+      onCommand: (action) => commandRef.current(action),
+      onJoystick: (joystick) => joystickRef.current?.update(joystick),
+    })
+    inputManagerRef.current = manager
 
     return () => {
-      clearInterval(blockInterval)
+      manager.dispose()
+      inputManagerRef.current = null
     }
-  }, [spawnBlock, blockSpawnRate, gameState])
+  }, [getWorldPoint])
 
-  // Handle keyboard controls
   useEffect(() => {
-    if (gameState !== "playing") return
-
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (Object.keys(keys).includes(e.key)) {
-        setKeys((prev) => ({ ...prev, [e.key]: true }))
-      }
-    }
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (Object.keys(keys).includes(e.key)) {
-        setKeys((prev) => ({ ...prev, [e.key]: false }))
-      }
-    }
-
-    window.addEventListener("keydown", handleKeyDown)
-    window.addEventListener("keyup", handleKeyUp)
+    inputManagerRef.current?.setBindings(keyBindings)
+    localStorage.setItem("gameKeyBindings", JSON.stringify(keyBindings))
+  }, [keyBindings])
 
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown)
-      window.removeEventListener("keyup", handleKeyUp)
-    }
-  }, [keys, gameState])
-
-  // Start game function
-  const startGame = useCallback(() => {
-    if (gameContainerRef.current) {
-      // Cancel any existing animation frames
-      Object.values(animationFrameIds.current).forEach((id) => {
-        if (id) cancelAnimationFrame(id)
-      })
-      animationFrameIds.current = {}
-
-      const containerWidth = gameContainerRef.current.clientWidth
-      const containerHeight = gameContainerRef.current.clientHeight
-
-      // Position player at bottom center
-      const newPosition = {
-        x: containerWidth / 2 - 24, // 24 is half of player width (48px)
-        y: containerHeight - 100, // 100px from bottom
-      }
-
-      // Reset all game state
-      setPosition(newPosition)
-      positionRef.current = newPosition
-      setGameState("playing")
-      gameStateRef.current = "playing"
-
-      // Clear all game objects
-      bulletsRef.current = []
-      blocksRef.current = []
-      powerUpsRef.current = []
-      setBullets([])
-      setBlocks([])
-      setPowerUps([])
-
-      // Reset score and game parameters
-      scoreRef.current = 0
-      setScore(0)
-      setGameTime(0)
-      setBlockSpawnRate(2000)
-      setBlockFallSpeed(3)
-      blockFallSpeedRef.current = 3
-      setBlocksPerWave(1)
-
-      // Reset power-ups
-      setActivePowerUps({
-        fireSpeed: false,
-        multiDirectional: false,
-        slowMotion: false,
-      })
-      activePowerUpsRef.current = {
-        fireSpeed: false,
-        multiDirectional: false,
-        slowMotion: false,
-      }
-      setPowerUpTimeLeft({
-        fireSpeed: 0,
-        multiDirectional: 0,
-        slowMotion: 0,
-      })
-
-      // Reset IDs
-      bulletIdRef.current = 0
-      blockIdRef.current = 0
-      powerUpIdRef.current = 0
-
-      // 7. Add a cleanup function for the bullet pool when the game ends
-      // Add this to the startGame function, right after resetting IDs
-      // Reset bullet pool
-      bulletPoolRef.current = []
-
-      // Start animation loops
-      startAnimationLoops()
-
-      // Play startup sound
-      playSound(gameStartSoundRef)
-
-      // Start background music after startup sound finishes
-      if (gameStartSoundRef.current && bgmSoundRef.current && audioLoaded) {
-        const startupDuration = gameStartSoundRef.current.duration || 2 // fallback to 2 seconds if duration not available
-        setTimeout(() => {
-          playSound(bgmSoundRef)
-        }, startupDuration * 1000)
-      } else {
-        // Fallback if startup sound isn't loaded yet
-        setTimeout(() => {
-          playSound(bgmSoundRef)
-        }, 2000)
-      }
-    }
-  }, [playSound, audioLoaded])
-
-  // Start all animation loops
-  const startAnimationLoops = useCallback(() => {
-    // Player movement animation
-    const animatePlayer = () => {
-      if (gameStateRef.current !== "playing" || !gameContainerRef.current || !playerRef.current) return
-
-      const speed = 5
-      let newX = positionRef.current.x
-      let newY = positionRef.current.y
-      let positionChanged = false
-
-      // Handle keyboard movement
-      if (keys.ArrowUp || keys.w) {
-        newY -= speed
-        positionChanged = true
-      }
-      if (keys.ArrowDown || keys.s) {
-        newY += speed
-        positionChanged = true
-      }
-      if (keys.ArrowLeft || keys.a) {
-        newX -= speed
-        positionChanged = true
-      }
-      if (keys.ArrowRight || keys.d) {
-        newX += speed
-        positionChanged = true
-      }
-
-      // Only process if position changed and not currently dragging
-      if (positionChanged && !isDragging) {
-        // Clamp position within screen boundaries
-        const containerWidth = gameContainerRef.current.clientWidth
-        const containerHeight = gameContainerRef.current.clientHeight
-        const playerWidth = playerRef.current.clientWidth
-        const playerHeight = playerRef.current.clientHeight
+  useEffect(() => {
+    inputManagerRef.current?.setGamepadSettings(gamepadSettings)
+    localStorage.setItem("gameGamepadSettings", JSON.stringify(gamepadSettings))
+  }, [gamepadSettings])
 
-        newX = Math.max(0, Math.min(containerWidth - playerWidth, newX))
-        newY = Math.max(0, Math.min(containerHeight - playerHeight, newY))
+  useEffect(() => {
+    inputManagerRef.current?.setTouchSettings(touchSettings)
+    localStorage.setItem("gameTouchSettings", JSON.stringify(touchSettings))
+  }, [touchSettings])
 
-        // Update position ref
-        positionRef.current = { x: newX, y: newY }
+  useEffect(() => {
+    inputManagerRef.current?.setAutoFire(autoFire)
+    localStorage.setItem("gameAutoFire", String(autoFire))
+  }, [autoFire])
 
-        // Update React state (triggers re-render)
-        setPosition({ x: newX, y: newY })
+  // Only steer while a game is running
+  useEffect(() => {
+    inputManagerRef.current?.setEnabled(gameState === "playing")
+  }, [gameState])
 
-        // Apply transform directly for immediate feedback
-        playerRef.current.style.transform = `translate(${newX}px, ${newY}px)`
+  // React to runner messages - HUD updates, engine events, game over and replay progress
+  const handleRunnerMessage = useCallback(
+    (message: RunnerMessage) => {
+      switch (message.type) {
+        case "hud":
+          setScore(message.hud.score)
+          setLives(message.hud.lives)
+          setBossWarning(message.hud.bossWarning)
+          setBoss(message.hud.boss)
+          setPowerUpTimeLeft(message.hud.powerUpTimeLeft)
+          setBombs(message.hud.bombs)
+          break
+        case "events":
+          message.events.forEach(eventBus.emit)
+          break
+        case "gameOver":
+          finalScoreRef.current = message.score
+          replayRef.current = message.replay
+          triggerGameOver()
+          break
+        case "replayProgress":
+          setReplayTick(message.tick)
+          setReplayTotalTicks(message.totalTicks)
+          setReplayPlaying(message.playing)
+          break
+        case "debug":
+          setDebugStats(message.stats)
+          break
       }
+    },
+    [eventBus, triggerGameOver],
+  )
 
-      animationFrameIds.current.player = requestAnimationFrame(animatePlayer)
-    }
-
-    // 4. Optimize the animateBullets function to recycle bullets
-    // Replace the animateBullets function inside startAnimationLoops with this
-    const animateBullets = () => {
-      if (gameStateRef.current !== "playing") return
-
-      const keptBullets: Bullet[] = []
-      const recycledBullets: Bullet[] = []
+  useEffect(() => {
+    runnerMessageRef.current = handleRunnerMessage
+  }, [handleRunnerMessage])
 
-      // Process each bullet
-      for (const bullet of bulletsRef.current) {
-        const angle = bullet.angle || 0
-        const radians = (angle * Math.PI) / 180
-        const speedX = Math.sin(radians) * 10
-        const speedY = -Math.cos(radians) * 10
+  // Sound effects and haptics
+  useEffect(() => {
+    const unsubscribers = [
+      eventBus.on("bulletFired", playFireSound),
+      eventBus.on("blockHit", () => playSound(hitSoundRef)),
+      eventBus.on("shotDeflected", () => playSound(hitSoundRef)),
+      eventBus.on("blockExploded", () => navigator.vibrate?.(50)),
+      eventBus.on("playerHit", () => {
+        playSound(hitSoundRef)
+        navigator.vibrate?.(100)
+      }),
+      eventBus.on("playerDied", () => navigator.vibrate?.(200)),
+      eventBus.on("bossWarning", () => playSound(gameStartSoundRef)),
+      eventBus.on("bossHit", () => playSound(hitSoundRef)),
+      eventBus.on("bossDefeated", () => navigator.vibrate?.([100, 50, 100])),
+      eventBus.on("shieldBlocked", () => playSound(hitSoundRef)),
+      eventBus.on("bombDetonated", () => navigator.vibrate?.([50, 30, 150])),
+    ]
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [eventBus, playSound, playFireSound])
+
+  // Open the replay viewer, returning to the current screen on exit
+  const watchReplay = useCallback(
+    (replay: Replay) => {
+      replayExitStateRef.current = gameState
+      setReplayError(null)
+      setReplayTick(0)
+      setReplayTotalTicks(replay.ticks)
+      setReplayPlaying(true)
+      hostRef.current?.send({ type: "watchReplay", replay })
+      hostRef.current?.send({ type: "replayPlayback", playing: true, speed: replaySpeed })
+      setGameState("replay")
+    },
+    [gameState, replaySpeed],
+  )
 
-        // Update position
-        bullet.x += speedX
-        bullet.y += speedY
+  const seekReplay = useCallback((tick: number) => {
+    setReplayTick(tick)
+    hostRef.current?.send({ type: "seekReplay", tick })
+  }, [])
 
-        // Keep bullets on screen, recycle off-screen bullets
-        if (bullet.y > -20) {
-          keptBullets.push(bullet)
-        } else {
-          recycledBullets.push(bullet)
-        }
-      }
+  const toggleReplayPlaying = useCallback(() => {
+    hostRef.current?.send({ type: "replayPlayback", playing: !replayPlaying, speed: replaySpeed })
+  }, [replayPlaying, replaySpeed])
 
-      // Update active bullets
-      bulletsRef.current = keptBullets
+  const changeReplaySpeed = useCallback(
+    (speed: number) => {
+      setReplaySpeed(speed)
+      hostRef.current?.send({ type: "replayPlayback", playing: replayPlaying, speed })
+    },
+    [replayPlaying],
+  )
 
-      // Recycle off-screen bullets (add to pool)
-      if (recycledBullets.length > 0) {
-        // Limit pool size to prevent memory issues
-        const availableSpace = MAX_BULLETS - bulletPoolRef.current.length
-        if (availableSpace > 0) {
-          bulletPoolRef.current.push(...recycledBullets.slice(0, availableSpace))
-        }
-      }
+  const exitReplay = useCallback(() => {
+    hostRef.current?.send({ type: "stop" })
+    setReplayPlaying(false)
+    setGameState(replayExitStateRef.current)
+  }, [])
 
-      needsRenderRef.current = true
-      animationFrameIds.current.bullets = requestAnimationFrame(animateBullets)
-    }
+  // Save the last replay as a JSON file to share
+  const downloadReplay = useCallback(() => {
+    const replay = replayRef.current
+    if (!replay) return
+
+    const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `block-x-bluster-${replay.seed}-${replay.score}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [])
 
-    // Block and power-up animation
-    const animateObjects = () => {
-      if (gameStateRef.current !== "playing" || !gameContainerRef.current) return
-
-      const containerHeight = gameContainerRef.current.clientHeight
-
-      // Calculate actual fall speed based on slow-motion power-up
-      const currentFallSpeed = activePowerUpsRef.current.slowMotion
-        ? blockFallSpeedRef.current * 0.5
-        : blockFallSpeedRef.current
-
-      // Animate blocks
-      const updatedBlocks = blocksRef.current
-        .map((block) => ({
-          ...block,
-          y: block.y + currentFallSpeed,
-        }))
-        .filter((block) => {
-          // Remove blocks that are off-screen or have 0 HP
-          return block.y < containerHeight + 50 && (block.isBreakable ? block.hp > 0 : true)
+  const loadReplay = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0]
+      e.target.value = "" // Allow loading the same file again
+      if (!file) return
+
+      file
+        .text()
+        .then((text) => {
+          const replay = parseReplay(text)
+          replayRef.current = replay
+          watchReplay(replay)
         })
+        .catch((error) => {
+          console.warn("Could not load replay:", error)
+          setReplayError(error instanceof Error ? error.message : "Could not load replay")
+        })
+    },
+    [watchReplay],
+  )
 
-      blocksRef.current = updatedBlocks
-
-      // Animate power-ups
-      const updatedPowerUps = powerUpsRef.current
-        .map((powerUp) => ({
-          ...powerUp,
-          y: powerUp.y + 2, // Power-up falling speed (slower than blocks)
-        }))
-        .filter((powerUp) => powerUp.y < containerHeight + 50) // Remove power-ups that are off-screen
-
-      powerUpsRef.current = updatedPowerUps
-      needsRenderRef.current = true
-
-      animationFrameIds.current.objects = requestAnimationFrame(animateObjects)
-    }
-
-    // 5. Optimize the checkCollisions function to be more efficient
-    // Replace the checkCollisions function inside startAnimationLoops with this
-    const checkCollisions = () => {
-      if (gameStateRef.current !== "playing") return
-
-      const bulletsToRecycle: Bullet[] = []
-      let hitDetected = false
-
-      // Use for loops instead of forEach for better performance
-      const bulletCount = bulletsRef.current.length
-      const blockCount = blocksRef.current.length
-
-      // Skip collision detection if there are no bullets or blocks
-      if (bulletCount === 0 || blockCount === 0) {
-        animationFrameIds.current.collisions = requestAnimationFrame(checkCollisions)
-        return
-      }
+  // Pause the simulation - the loop simply stops stepping until resumed
+  const pauseGame = useCallback(() => {
+    if (gameState !== "playing") return
 
-      // Process each bullet
-      for (let i = 0; i < bulletCount; i++) {
-        const bullet = bulletsRef.current[i]
-        if (!bullet) continue
-
-        // Bullet hitbox
-        const bulletLeft = bullet.x
-        const bulletRight = bullet.x + 8
-        const bulletTop = bullet.y
-        const bulletBottom = bullet.y + 16
-
-        // Check against each block
-        for (let j = 0; j < blockCount; j++) {
-          const block = blocksRef.current[j]
-          if (!block) continue
-
-          // Block hitbox
-          const blockLeft = block.x
-          const blockRight = block.x + 40
-          const blockTop = block.y
-          const blockBottom = block.y + 40
-
-          // Check for collision
-          if (
-            bulletRight > blockLeft &&
-            bulletLeft < blockRight &&
-            bulletBottom > blockTop &&
-            bulletTop < blockBottom
-          ) {
-            // Collision detected!
-            bulletsToRecycle.push(bullet)
-            hitDetected = true
-
-            // Play hit sound
-            playSound(hitSoundRef)
-
-            // Update block
-            if (block.isBreakable) {
-              block.hp -= 1
-              scoreRef.current += 1
-            }
-
-            block.isHit = true
-            break // Skip checking this bullet against other blocks
+    hostRef.current?.send({ type: "pause" })
+    cancelBgmStart()
+    bgmSoundRef.current?.pause()
+    setGameState("paused")
+  }, [gameState, cancelBgmStart])
+
+  const resumeGame = useCallback(() => {
+    if (gameState !== "paused") return
+
+    hostRef.current?.send({ type: "resume" })
+    setGameState("playing")
+    // Carry on the soundtrack from where it was paused
+    if (audioLoaded) {
+      bgmSoundRef.current?.play().catch((error) => console.warn("Audio playback was prevented:", error))
+    }
+  }, [gameState, audioLoaded])
+
+  const quitGame = useCallback(() => {
+    hostRef.current?.send({ type: "stop" })
+    cancelBgmStart()
+    bgmSoundRef.current?.pause()
+    setGameState("notStarted")
+  }, [cancelBgmStart])
+
+  // Bound command keys. Pause (or Start) toggles pause while a game is running and backs out of the controls screen.
+  const handleCommand = useCallback(
+    (action: CommandAction) => {
+      switch (action) {
+        case "pause":
+          if (showControls) {
+            setShowControls(false)
+          } else if (gameState === "playing") {
+            pauseGame()
+          } else if (gameState === "paused") {
+            resumeGame()
           }
-        }
-      }
-
-      // Remove bullets that hit blocks and add them to the pool
-      if (bulletsToRecycle.length > 0) {
-        // Remove from active bullets
-        bulletsRef.current = bulletsRef.current.filter((bullet) => !bulletsToRecycle.some((b) => b.id === bullet.id))
-
-        // Add to bullet pool (limited by MAX_BULLETS)
-        const availableSpace = MAX_BULLETS - bulletPoolRef.current.length
-        if (availableSpace > 0) {
-          bulletPoolRef.current.push(...bulletsToRecycle.slice(0, availableSpace))
-        }
+          break
+        case "mute":
+          toggleMute()
+          break
+        case "fullscreen":
+          toggleFullscreen()
+          break
       }
+    },
+    [showControls, gameState, pauseGame, resumeGame, toggleMute, toggleFullscreen],
+  )
 
-      // Remove blocks with 0 HP and reset isHit after a short delay
-      if (hitDetected) {
-        // Filter out breakable blocks with 0 HP
-        blocksRef.current = blocksRef.current.filter((block) => !block.isBreakable || block.hp > 0)
-        needsRenderRef.current = true
+  useEffect(() => {
+    commandRef.current = handleCommand
+  }, [handleCommand])
 
-        // Reset isHit after a short delay for visual feedback
-        setTimeout(() => {
-          for (const block of blocksRef.current) {
-            block.isHit = false
-          }
-          needsRenderRef.current = true
-        }, 50)
-      }
+  // Pause automatically when the tab is hidden or the window loses focus
+  useEffect(() => {
+    if (gameState !== "playing") return
 
-      animationFrameIds.current.collisions = requestAnimationFrame(checkCollisions)
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame()
     }
 
-    // Collision detection between blocks/power-ups and player
-    const checkPlayerCollisions = () => {
-      if (gameStateRef.current !== "playing" || !playerRef.current) return
-
-      // Player hitbox
-      const playerWidth = 48 // 12 * 4 = 48px (w-12 in Tailwind)
-      const playerHeight = 48 // 12 * 4 = 48px (h-12 in Tailwind)
-      const playerLeft = positionRef.current.x
-      const playerRight = positionRef.current.x + playerWidth
-      const playerTop = positionRef.current.y
-      const playerBottom = positionRef.current.y + playerHeight
-
-      // Check each block for collision with player
-      for (const block of blocksRef.current) {
-        // Block hitbox
-        const blockWidth = 40 // 10 * 4 = 40px (w-10 in Tailwind)
-        const blockHeight = 40 // 10 * 4 = 40px (h-10 in Tailwind)
-        const blockLeft = block.x
-        const blockRight = block.x + blockWidth
-        const blockTop = block.y
-        const blockBottom = block.y + blockHeight
-
-        // Check for collision using the provided logic
-        const isColliding =
-          playerLeft < blockRight && playerRight > blockLeft && playerTop < blockBottom && playerBottom > blockTop
-
-        if (isColliding) {
-          // Game over!
-          triggerGameOver()
-          return
-        }
-      }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    window.addEventListener("blur", pauseGame)
 
-      // Check each power-up for collision with player
-      const powerUpsToCollect: number[] = []
-      for (const powerUp of powerUpsRef.current) {
-        // Power-up hitbox
-        const powerUpWidth = 30
-        const powerUpHeight = 30
-        const powerUpLeft = powerUp.x
-        const powerUpRight = powerUp.x + powerUpWidth
-        const powerUpTop = powerUp.y
-        const powerUpBottom = powerUp.y + powerUpHeight
-
-        // Check for collision
-        const isColliding =
-          playerLeft < powerUpRight &&
-          playerRight > powerUpLeft &&
-          playerTop < powerUpBottom &&
-          playerBottom > powerUpTop
-
-        if (isColliding) {
-          // Collect power-up
-          powerUpsToCollect.push(powerUp.id)
-          activatePowerUp(powerUp.type)
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      window.removeEventListener("blur", pauseGame)
+    }
+  }, [gameState, pauseGame])
+
+  // Start game function - uses the given seed, else the typed seed, else a random one
+  const startGame = useCallback(
+    (runSeed?: number) => {
+      if (hostRef.current) {
+        // Reset all game state with a fresh world
+        const nextSeed = runSeed ?? parseSeed(seedInput) ?? randomSeed()
+        hostRef.current.send({ type: "start", seed: nextSeed, profile: getDifficultyPreset(difficultyId) })
+        setSeed(nextSeed)
+        setGameState("playing")
+
+        // Play startup sound
+        playSound(gameStartSoundRef)
+
+        // Start background music after startup sound finishes, replacing any start still pending from a restart
+        cancelBgmStart()
+        if (gameStartSoundRef.current && bgmSoundRef.current && audioLoaded) {
+          const startupDuration = gameStartSoundRef.current.duration || 2 // fallback to 2 seconds if duration not available
+          bgmTimerRef.current = setTimeout(() => {
+            bgmTimerRef.current = null
+            playSound(bgmSoundRef)
+          }, startupDuration * 1000)
+        } else {
+          // Fallback if startup sound isn't loaded yet
+          bgmTimerRef.current = setTimeout(() => {
+            bgmTimerRef.current = null
+            playSound(bgmSoundRef)
+          }, 2000)
         }
       }
-
-      // Remove collected power-ups
-      if (powerUpsToCollect.length > 0) {
-        powerUpsRef.current = powerUpsRef.current.filter((powerUp) => !powerUpsToCollect.includes(powerUp.id))
-        needsRenderRef.current = true
-      }
-
-      animationFrameIds.current.playerCollisions = requestAnimationFrame(checkPlayerCollisions)
-    }
-
-    // Start all animation loops
-    animationFrameIds.current.player = requestAnimationFrame(animatePlayer)
-    animationFrameIds.current.bullets = requestAnimationFrame(animateBullets)
-    animationFrameIds.current.objects = requestAnimationFrame(animateObjects)
-    animationFrameIds.current.collisions = requestAnimationFrame(checkCollisions)
-    animationFrameIds.current.playerCollisions = requestAnimationFrame(checkPlayerCollisions)
-  }, [keys, playSound, triggerGameOver, activatePowerUp, isDragging])
-
-  // Get block color based on HP and breakability
-  const getBlockColor = (hp: number, isBreakable: boolean, isHit = false) => {
-    // If the block was just hit, return a white background for flash effect
-    if (isHit) return "bg-white"
-
-    // Unbreakable blocks are dark gray/metallic
-    if (!isBreakable) return "bg-gray-700 border border-gray-500"
-
-    // Normal blocks based on HP
-    switch (hp) {
-      case 1:
-        return "bg-red-500"
-      case 2:
-        return "bg-orange-500"
-      case 3:
-        return "bg-yellow-500"
-      case 4:
-        return "bg-lime-500"
-      case 5:
-        return "bg-green-500"
-      case 6:
-        return "bg-teal-500"
-      case 7:
-        return "bg-blue-500"
-      case 8:
-        return "bg-indigo-500"
-      case 9:
-        return "bg-purple-500"
-      case 10:
-        return "bg-pink-500"
-      default:
-        return "bg-gray-500"
-    }
-  }
-
-  // Get power-up color and icon based on type
-  const getPowerUpStyle = (type: PowerUpType) => {
-    switch (type) {
-      case "fireSpeed":
-        return {
-          className: "bg-red-500 animate-pulse",
-          icon: "🔥",
-        }
-      case "multiDirectional":
-        return {
-          className: "bg-blue-500 animate-pulse",
-          icon: "🔱",
-        }
-      case "slowMotion":
-        return {
-          className: "bg-purple-500 animate-pulse",
-          icon: "⏱️",
-        }
-    }
-  }
+    },
+    [playSound, cancelBgmStart, audioLoaded, seedInput, difficultyId],
+  )
 
   return (
     <div
@@ -1182,19 +668,35 @@ export default function Game() {
       className={`w-screen h-screen bg-gray-900 overflow-hidden touch-none relative ${
         gameOverEffect ? "bg-red-900" : ""
       }`}
-      onTouchStart={handleTouchStart}
-      onTouchMove={(e) => {
-        e.preventDefault() // Prevent scrolling
-        handleTouchMove(e)
-      }}
-      onTouchEnd={handleTouchEnd}
-      onMouseDown={handleTouchStart}
-      onMouseMove={handleTouchMove}
-      onMouseUp={handleTouchEnd}
-      onMouseLeave={handleTouchEnd}
     >
+      {/* Game world - the runner draws into a canvas it creates here */}
+      <div ref={canvasContainerRef} className="absolute inset-0" />
+
+      {gameState === "playing" && touchSettings.scheme === "joystick" && (
+        <VirtualJoystick
+          ref={joystickRef}
+          fixed={touchSettings.joystickPosition === "fixed"}
+          handedness={touchSettings.handedness}
+        />
+      )}
+
       {/* Control buttons - always visible */}
       <div className="absolute top-4 right-4 z-10 flex gap-2">
+        {gameState === "playing" && (
+          <button onClick={pauseGame} className="bg-gray-800 bg-opacity-75 p-2 rounded-full" aria-label="Pause">
+            <Pause className="w-6 h-6 text-white" />
+          </button>
+        )}
+        {gameState !== "replay" && (
+          <button
+            onClick={toggleAutopilot}
+            className={`${autopilot ? "bg-blue-500" : "bg-gray-800 bg-opacity-75"} p-2 rounded-full`}
+            aria-label="Autopilot"
+            aria-pressed={autopilot}
+          >
+            <Bot className="w-6 h-6 text-white" />
+          </button>
+        )}
         <button
           onClick={toggleFullscreen}
           className="bg-gray-800 bg-opacity-75 p-2 rounded-full"
@@ -1211,132 +713,158 @@ export default function Game() {
         </button>
       </div>
 
+      {showDebug && <DebugOverlay stats={debugStats} />}
+
       {gameState === "notStarted" ? (
-        <div className="absolute inset-0 flex items-center justify-center">
+        <div className="absolute inset-0 flex items-center justify-center bg-gray-900 bg-opacity-60">
           <div className="text-center">
             <h1 className="text-4xl font-bold text-white mb-8">Block X Bluster</h1>
             <button
-              onClick={startGame}
+              onClick={() => startGame()}
               className="px-8 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
             >
               Start Game
             </button>
+            <div className="mt-4">
+              <DifficultyPicker value={difficultyId} onChange={setDifficultyId} />
+            </div>
+            <input
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              placeholder="Seed (optional)"
+              aria-label="Seed"
+              className="block mx-auto mt-4 w-48 px-3 py-2 bg-gray-800 text-white text-center rounded-lg placeholder-gray-500"
+            />
+            <button
+              onClick={() => setShowControls(true)}
+              className="block mx-auto mt-4 text-gray-400 hover:text-white transition-colors"
+            >
+              Controls
+            </button>
+            <label className="block mt-2 text-gray-400 hover:text-white cursor-pointer transition-colors">
+              Load Replay
+              <input type="file" accept="application/json,.json" onChange={loadReplay} className="hidden" />
+            </label>
+            {replayError && <p className="mt-2 text-red-400 text-sm">{replayError}</p>}
           </div>
         </div>
       ) : gameState === "gameOver" ? (
         <div className="absolute inset-0 flex items-center justify-center">
           <div className="text-center bg-gray-800 bg-opacity-90 p-8 rounded-xl">
             <h1 className="text-4xl font-bold text-white mb-4">Game Over</h1>
-            <p className="text-2xl text-white mb-8">Final Score: {finalScoreRef.current}</p>
-            <button
-              onClick={startGame}
-              className="px-8 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Play Again
-            </button>
+            <p className="text-2xl text-white mb-2">Final Score: {finalScoreRef.current}</p>
+            <p className="text-gray-400 mb-8">
+              <span className="select-all">Seed: {seed}</span> · {getDifficultyPreset(difficultyId).name}
+            </p>
+            <div className="flex flex-col gap-3">
+              <button
+                onClick={() => startGame()}
+                className="px-8 py-4 bg-blue-500 text-white text-xl font-bold rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Play Again
+              </button>
+              {seed !== null && (
+                <button
+                  onClick={() => startGame(seed)}
+                  className="px-8 py-3 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Retry Same Seed
+                </button>
+              )}
+              <input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="Seed (optional)"
+                aria-label="Seed"
+                className="w-full px-3 py-2 bg-gray-900 text-white text-center rounded-lg placeholder-gray-500"
+              />
+              {replayRef.current && (
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => replayRef.current && watchReplay(replayRef.current)}
+                    className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                  >
+                    Watch Replay
+                  </button>
+                  <button
+                    onClick={downloadReplay}
+                    className="flex-1 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                  >
+                    Download
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       ) : (
         <>
+          <BossHud warning={bossWarning} boss={boss} />
+
           {/* Score display */}
-          <div className="absolute top-4 left-4 bg-gray-800 bg-opacity-75 px-4 py-2 rounded-lg">
+          <div className="absolute top-4 left-4 bg-gray-800 bg-opacity-75 px-4 py-2 rounded-lg flex items-center">
             <span className="text-white font-bold text-xl">Score: {score}</span>
+            <span className="ml-3 flex gap-1" aria-label={`${lives} ${lives === 1 ? "life" : "lives"} left`}>
+              {lives > MAX_HEART_ICONS ? (
+                <>
+                  <Heart className="w-5 h-5 text-red-500 fill-red-500" />
+                  <span className="text-white font-bold">× {lives}</span>
+                </>
+              ) : (
+                Array.from({ length: lives }, (_, i) => <Heart key={i} className="w-5 h-5 text-red-500 fill-red-500" />)
+              )}
+            </span>
+            {autopilot && <span className="ml-2 text-blue-400 text-sm font-bold">AUTOPILOT</span>}
           </div>
 
-          {/* Active power-ups display */}
-          <div className="absolute top-16 left-4 flex flex-col gap-2">
-            {activePowerUps.fireSpeed && (
-              <div className="bg-gray-800 bg-opacity-75 px-3 py-1 rounded-lg flex items-center gap-2">
-                <span className="text-white">🔥</span>
-                <span className="text-white text-sm">Fire Speed: {powerUpTimeLeft.fireSpeed}s</span>
-              </div>
-            )}
-            {activePowerUps.multiDirectional && (
-              <div className="bg-gray-800 bg-opacity-75 px-3 py-1 rounded-lg flex items-center gap-2">
-                <span className="text-white">🔱</span>
-                <span className="text-white text-sm">Multi-Fire: {powerUpTimeLeft.multiDirectional}s</span>
-              </div>
-            )}
-            {activePowerUps.slowMotion && (
-              <div className="bg-gray-800 bg-opacity-75 px-3 py-1 rounded-lg flex items-center gap-2">
-                <span className="text-white">⏱️</span>
-                <span className="text-white text-sm">Slow-Mo: {powerUpTimeLeft.slowMotion}s</span>
-              </div>
-            )}
-          </div>
-
-          {/* Render blocks */}
-          {blocks.map((block) => (
-            <div
-              key={block.id}
-              className={`w-10 h-10 ${getBlockColor(block.hp, block.isBreakable, block.isHit)} rounded-lg absolute flex items-center justify-center transition-colors duration-50`}
-              style={{
-                transform: `translate(${block.x}px, ${block.y}px)`,
-              }}
-            >
-              <span className="text-white font-bold text-lg">{block.isBreakable ? block.hp : "∞"}</span>
-            </div>
-          ))}
-
-          {/* Render power-ups */}
-          {powerUps.map((powerUp) => {
-            const style = getPowerUpStyle(powerUp.type)
-            return (
-              <div
-                key={powerUp.id}
-                className={`w-8 h-8 ${style.className} rounded-full absolute flex items-center justify-center shadow-lg`}
-                style={{
-                  transform: `translate(${powerUp.x}px, ${powerUp.y}px)`,
-                }}
-              >
-                <span className="text-lg">{style.icon}</span>
-              </div>
-            )
-          })}
-
-          {/* Render bullets */}
-          {bullets.map((bullet) => {
-            const angle = bullet.angle || 0
-            return (
-              <div
-                key={bullet.id}
-                className="w-2 h-4 bg-yellow-400 rounded-full absolute"
-                style={{
-                  transform: `translate(${bullet.x}px, ${bullet.y}px) rotate(${angle}deg)`,
-                }}
-              />
-            )
-          })}
-
-          {/* Render player (Fighter Plane) */}
-          <div
-            ref={playerRef}
-            className="absolute"
-            style={{
-              transform: `translate(${position.x}px, ${position.y}px)`,
-              transition: isDragging ? "none" : "transform 0.1s ease-out",
-              willChange: "transform", // Hint to browser to optimize transforms
-              width: "48px",
-              height: "48px",
-            }}
-          >
-            {/* Main body of the plane */}
-            <div className="absolute w-8 h-12 bg-blue-500 rounded-t-full left-1/2 -translate-x-1/2"></div>
-
-            {/* Wings */}
-            <div className="absolute w-full h-4 bg-blue-600 top-6 rounded-sm"></div>
-
-            {/* Tail */}
-            <div className="absolute w-6 h-3 bg-blue-700 bottom-0 left-1/2 -translate-x-1/2 rounded-b-sm"></div>
-
-            {/* Cockpit */}
-            <div className="absolute w-4 h-4 bg-cyan-300 rounded-full top-3 left-1/2 -translate-x-1/2"></div>
-
-            {/* Engine flames */}
-            <div className="absolute w-2 h-3 bg-orange-500 -bottom-2 left-1/2 -translate-x-1/2 rounded-b-full animate-pulse"></div>
-          </div>
+          <PowerUpHud
+            timeLeft={powerUpTimeLeft}
+            bombs={bombs}
+            bombKeys={keyBindings.bomb.map(formatKey)}
+            onBomb={(held) => inputManagerRef.current?.setBombButton(held)}
+          />
+
+          {/* Pause menu */}
+          {gameState === "paused" && (
+            <PauseOverlay
+              resumeKeys={keyBindings.pause.map(formatKey)}
+              onResume={resumeGame}
+              onRestart={() => startGame()}
+              onControls={() => setShowControls(true)}
+              onQuit={quitGame}
+            />
+          )}
+
+          {/* Replay viewer controls */}
+          {gameState === "replay" && (
+            <ReplayControls
+              tick={replayTick}
+              totalTicks={replayTotalTicks}
+              isPlaying={replayPlaying}
+              speed={replaySpeed}
+              onTogglePlay={toggleReplayPlaying}
+              onSeek={seekReplay}
+              onSpeedChange={changeReplaySpeed}
+              onExit={exitReplay}
+            />
+          )}
         </>
       )}
+
+      {/* Controls screen, over the title screen or pause menu */}
+      {showControls && (
+        <ControlsSettings
+          bindings={keyBindings}
+          onChange={setKeyBindings}
+          gamepadSettings={gamepadSettings}
+          onGamepadSettingsChange={setGamepadSettings}
+          touchSettings={touchSettings}
+          onTouchSettingsChange={setTouchSettings}
+          autoFire={autoFire}
+          onAutoFireChange={setAutoFire}
+          onClose={() => setShowControls(false)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,239 @@
+import {
+  BOSS_HEIGHT,
+  BOSS_WIDTH,
+  BULLET_SPEED,
+  ENEMY_BULLET_SIZE,
+  FIRE_RATE,
+  LASER_INTERVAL,
+  MULTI_SHOT_ANGLE,
+  MULTI_SHOT_OFFSET,
+  PLAYER_SIZE,
+  PLAYER_SPEED,
+  POWER_UP_FALL_SPEED,
+  POWER_UP_SIZE,
+  ZIGZAG_AMPLITUDE,
+} from "./constants"
+import type { InputSource } from "./simulate"
+import { blockSpeed } from "./systems/blocks"
+import { BOSS_PHASES } from "./systems/boss"
+import { isPowerUpActive } from "./systems/power-ups"
+import type { Block, World } from "./types"
+import { createPlayerInput } from "./world"
+
+// Spacing between the horizontal positions the pilot considers each step
+const CANDIDATE_SPACING = 8
+// Blocks further out than this many seconds are ignored
+const LOOKAHEAD = 2
+// Extra room kept around blocks when dodging
+const DODGE_MARGIN = 6
+// A boss whose bottom edge comes this close to the player is about to hit
+const BOSS_DANGER_ZONE = 160
+// Movement below this distance is treated as arrived, so the pilot doesn't jitter
+const DEADZONE = 4
+
+// Candidate scoring weights - dodging beats power-ups, power-ups beat targets
+const COLLISION_COST = 10000
+const THREAT_COST = 400
+const POWER_UP_REWARD = 150
+const TARGET_REWARD = 60
+const MOVE_COST = 0.05
+
+// Does [a, a + aWidth] overlap [b, b + bWidth]?
+const spans = (a: number, aWidth: number, b: number, bWidth: number) => a < b + bWidth && a + aWidth > b
+
+// Cost of standing at `x` as far as falling blocks go, including the trip there from the player's position
+function blockCost(world: World, x: number): number {
+  const player = world.player
+  const travelTime = Math.abs(x - player.x) / PLAYER_SPEED
+  const direction = Math.sign(x - player.x)
+  let cost = 0
+
+  for (const block of world.blocks) {
+    // Window of time the block overlaps the player's rows
+    const speed = blockSpeed(world, block)
+    const enter = (player.y - (block.y + block.size)) / speed
+    const exit = (player.y + PLAYER_SIZE - block.y) / speed
+    if (exit < 0 || enter > LOOKAHEAD) continue
+
+    // Zig-zag blocks can be anywhere across their sway
+    const sway = block.kind === "zigzag" ? ZIGZAG_AMPLITUDE : 0
+    const left = block.x - DODGE_MARGIN - sway
+    const width = block.size + (DODGE_MARGIN + sway) * 2
+
+    // Collides while moving: where we are while the block is level with us
+    const from = Math.max(enter, 0)
+    const to = Math.min(exit, travelTime)
+    if (from <= to) {
+      const start = player.x + direction * PLAYER_SPEED * from
+      const end = player.x + direction * PLAYER_SPEED * to
+      if (spans(Math.min(start, end), Math.abs(end - start) + PLAYER_SIZE, left, width)) {
+        cost += COLLISION_COST
+        continue
+      }
+    }
+
+    // Still level with us once we arrive - the sooner it lands, the worse
+    if (exit > travelTime && spans(x, PLAYER_SIZE, left, width)) {
+      cost += enter <= travelTime ? COLLISION_COST : THREAT_COST * (1 + LOOKAHEAD - enter)
+    }
+  }
+
+  return cost
+}
+
+// Cost of standing at `x` as far as enemy fire goes, judged by where each shot crosses the player's rows
+function enemyBulletCost(world: World, x: number, speedScale: number): number {
+  const player = world.player
+  const travelTime = Math.abs(x - player.x) / PLAYER_SPEED
+  const direction = Math.sign(x - player.x)
+  let cost = 0
+
+  for (const bullet of world.enemyBullets) {
+    const vx = bullet.vx * speedScale
+    const vy = bullet.vy * speedScale
+    if (vy <= 0) continue
+
+    const enter = (player.y - (bullet.y + ENEMY_BULLET_SIZE)) / vy
+    const exit = (player.y + PLAYER_SIZE - bullet.y) / vy
+    if (exit < 0 || enter > LOOKAHEAD) continue
+
+    // Span it sweeps across while level with us
+    const from = Math.max(enter, 0)
+    const start = bullet.x + vx * from
+    const end = bullet.x + vx * exit
+    const left = Math.min(start, end) - DODGE_MARGIN
+    const width = Math.abs(end - start) + ENEMY_BULLET_SIZE + DODGE_MARGIN * 2
+
+    // Crossing its path on the way there
+    const to = Math.min(exit, travelTime)
+    if (from <= to) {
+      const pathStart = player.x + direction * PLAYER_SPEED * from
+      const pathEnd = player.x + direction * PLAYER_SPEED * to
+      if (spans(Math.min(pathStart, pathEnd), Math.abs(pathEnd - pathStart) + PLAYER_SIZE, left, width)) {
+        cost += COLLISION_COST
+        continue
+      }
+    }
+
+    if (exit > travelTime && spans(x, PLAYER_SIZE, left, width)) {
+      cost += enter <= travelTime ? COLLISION_COST : THREAT_COST * (1 + LOOKAHEAD - enter)
+    }
+  }
+
+  return cost
+}
+
+// The boss only threatens the columns under it, most of all when it is low or liable to dive
+function bossCost(world: World, x: number): number {
+  const boss = world.boss
+  if (!boss || !spans(x, PLAYER_SIZE, boss.x - DODGE_MARGIN, BOSS_WIDTH + DODGE_MARGIN * 2)) return 0
+  if (boss.y + BOSS_HEIGHT > world.player.y - BOSS_DANGER_ZONE) return COLLISION_COST
+  return BOSS_PHASES[boss.phase].pattern === "charge" ? THREAT_COST : 0
+}
+
+// Reward for catching a power-up from `x` before it falls past the player
+function powerUpReward(world: World, x: number): number {
+  const player = world.player
+  const travelTime = Math.abs(x - player.x) / PLAYER_SPEED
+  let reward = 0
+
+  for (const powerUp of world.powerUps) {
+    const timeLeft = (player.y + PLAYER_SIZE - powerUp.y) / POWER_UP_FALL_SPEED
+    if (timeLeft > travelTime && spans(x, PLAYER_SIZE, powerUp.x, POWER_UP_SIZE)) {
+      reward += POWER_UP_REWARD
+    }
+  }
+
+  return reward
+}
+
+const MULTI_SHOT_RADIANS = (MULTI_SHOT_ANGLE * Math.PI) / 180
+
+// How far to one side of the gun an angled multi-directional shot meets a block, allowing for the block falling
+// towards it on the way
+function angledShotReach(world: World, block: Block): number {
+  const climbSpeed = BULLET_SPEED * Math.cos(MULTI_SHOT_RADIANS)
+  const gap = world.player.y - (block.y + block.size / 2)
+  const climb = (gap * climbSpeed) / (climbSpeed + blockSpeed(world, block))
+  return MULTI_SHOT_OFFSET + climb * Math.tan(MULTI_SHOT_RADIANS)
+}
+
+// Reward for sitting under a breakable block that can be shot down before it arrives, weakest first
+function targetReward(world: World, x: number): number {
+  const player = world.player
+  const gunX = x + PLAYER_SIZE / 2
+  // The laser burns through armour, and much faster than bullets
+  const laser = isPowerUpActive(world, "laser")
+  const breaksArmor = laser || isPowerUpActive(world, "piercing")
+  const multiShot = isPowerUpActive(world, "multiDirectional")
+  const fireInterval = laser ? LASER_INTERVAL : FIRE_RATE
+  let best = 0
+
+  for (const block of world.blocks) {
+    if (!block.isBreakable || block.y + block.size > player.y) continue
+
+    if (block.kind === "armored" && !breaksArmor) {
+      // Straight bullets bounce off armour, and homing ones rarely turn past MIN_ARMOR_ANGLE. Only the angled
+      // multi-directional shots get through, so line one of those up from off to the side instead.
+      if (!multiShot) continue
+      const offset = Math.abs(gunX - (block.x + block.size / 2))
+      if (Math.abs(offset - angledShotReach(world, block)) > block.size / 2) continue
+    } else if (gunX < block.x || gunX > block.x + block.size) {
+      continue
+    }
+
+    const timeToArrive = (player.y - (block.y + block.size)) / blockSpeed(world, block)
+    const timeToDestroy = (block.hp * fireInterval) / 1000 + Math.abs(x - player.x) / PLAYER_SPEED
+    if (timeToDestroy < timeToArrive) {
+      best = Math.max(best, TARGET_REWARD / block.hp)
+    }
+  }
+
+  const boss = world.boss
+  if (boss && gunX >= boss.x && gunX <= boss.x + BOSS_WIDTH) {
+    best = Math.max(best, TARGET_REWARD)
+  }
+
+  return best
+}
+
+// An AI pilot that dodges falling blocks, bosses and enemy fire, goes for power-ups and shoots weak blocks and bosses.
+// Steers with the keyboard controls only, so it plays by the same rules as a person and its runs replay normally.
+export function createAutopilot(): InputSource {
+  const input = createPlayerInput()
+  input.fire = true
+
+  return (world) => {
+    const player = world.player
+    const speedScale = isPowerUpActive(world, "slowMotion") ? 0.5 : 1
+
+    const scoreAt = (x: number) =>
+      powerUpReward(world, x) +
+      targetReward(world, x) -
+      blockCost(world, x) -
+      bossCost(world, x) -
+      enemyBulletCost(world, x, speedScale) -
+      Math.abs(x - player.x) * MOVE_COST
+
+    // Staying put is always an option, then every candidate position across the screen
+    let bestX = player.x
+    let bestScore = scoreAt(player.x)
+    const maxX = world.width - PLAYER_SIZE
+
+    for (let x = 0; x < maxX + CANDIDATE_SPACING; x += CANDIDATE_SPACING) {
+      const candidate = Math.min(x, maxX)
+      const score = scoreAt(candidate)
+      if (score > bestScore) {
+        bestScore = score
+        bestX = candidate
+      }
+    }
+
+    input.moveX = bestX < player.x - DEADZONE ? -1 : bestX > player.x + DEADZONE ? 1 : 0
+    // Hug the bottom edge for the most reaction time
+    input.moveY = 1
+    // Bomb our way out when every option ends in a collision
+    input.bomb = world.bombs > 0 && bestScore <= -COLLISION_COST
+    return input
+  }
+}
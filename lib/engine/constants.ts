@@ -0,0 +1,163 @@
+import type { Shape } from "./shapes"
+import type { PowerUpType } from "./types"
+
+// Logical playfield size in world units. The renderer scales it to fit the screen,
+// so every device sees the same number of blocks across.
+export const WORLD_WIDTH = 480
+export const WORLD_HEIGHT = 800
+
+// Entity sizes in world units, matching the rendered entities
+export const PLAYER_SIZE = 48 // w-12 h-12 in Tailwind
+export const BLOCK_SIZE = 40 // w-10 h-10 in Tailwind
+export const SMALL_BLOCK_SIZE = 24 // Halves of a splitter
+export const POWER_UP_SIZE = 32 // w-8 h-8 in Tailwind
+export const BULLET_WIDTH = 8
+export const BULLET_HEIGHT = 16
+export const ENEMY_BULLET_SIZE = 10
+
+// Collision shapes following what is drawn, relative to each entity's top-left corner
+export const PLAYER_SHAPE: Shape = {
+  kind: "compound",
+  parts: [
+    { kind: "capsule", ax: 24, ay: 16, bx: 24, by: 32, radius: 16 }, // Body with its rounded nose
+    { kind: "box", x: 0, y: 24, width: PLAYER_SIZE, height: 16 }, // Wings
+  ],
+}
+export const BLOCK_SHAPE: Shape = { kind: "box", x: 0, y: 0, width: BLOCK_SIZE, height: BLOCK_SIZE }
+export const SMALL_BLOCK_SHAPE: Shape = { kind: "box", x: 0, y: 0, width: SMALL_BLOCK_SIZE, height: SMALL_BLOCK_SIZE }
+export const POWER_UP_SHAPE: Shape = {
+  kind: "circle",
+  x: POWER_UP_SIZE / 2,
+  y: POWER_UP_SIZE / 2,
+  radius: POWER_UP_SIZE / 2,
+}
+// Turned by the bullet's angle for multi-directional fire
+export const BULLET_SHAPE: Shape = {
+  kind: "orientedBox",
+  x: BULLET_WIDTH / 2,
+  y: BULLET_HEIGHT / 2,
+  width: BULLET_WIDTH,
+  height: BULLET_HEIGHT,
+}
+
+export const ENEMY_BULLET_SHAPE: Shape = {
+  kind: "circle",
+  x: ENEMY_BULLET_SIZE / 2,
+  y: ENEMY_BULLET_SIZE / 2,
+  radius: ENEMY_BULLET_SIZE / 2,
+}
+
+// Bosses are a grid of block-sized cells
+export const BOSS_COLUMNS = 4
+export const BOSS_ROWS = 2
+export const BOSS_WIDTH = BOSS_COLUMNS * BLOCK_SIZE
+export const BOSS_HEIGHT = BOSS_ROWS * BLOCK_SIZE
+export const BOSS_SHAPE: Shape = { kind: "box", x: 0, y: 0, width: BOSS_WIDTH, height: BOSS_HEIGHT }
+
+// Movement speeds in world units per second
+export const PLAYER_SPEED = 300
+export const BULLET_SPEED = 600
+export const POWER_UP_FALL_SPEED = 120 // Slower than blocks
+export const ENEMY_BULLET_SPEED = 200
+
+// Player spawns centered, this far above the bottom edge
+export const PLAYER_START_OFFSET = 100
+
+// Entities are removed once they leave the screen by this margin
+export const OFFSCREEN_MARGIN = 50
+
+// Maximum retired entities of each kind to keep in memory for reuse
+export const POOL_LIMITS = {
+  bullets: 100,
+  blocks: 50,
+  powerUps: 10,
+  enemyBullets: 100,
+}
+
+// Fire rate in ms between shots
+export const FIRE_RATE = 200
+export const FAST_FIRE_RATE = 100
+
+// Block hit flash duration in ms
+export const HIT_FLASH_DURATION = 50
+
+// After losing a life the player can't be hit for this many ms
+export const INVULNERABILITY_DURATION = 2000
+
+// Most lives a difficulty profile can start with
+export const MAX_LIVES = 9
+
+// An unbreakable block that hits the player is pushed back up this far, clear of the ship
+export const KNOCKBACK_DISTANCE = 80
+
+// Boss encounters: warning banner length (ms), resting height, top speed (world units per second) and score for the kill
+export const BOSS_WARNING_DURATION = 3000
+export const BOSS_HOVER_Y = 80
+export const BOSS_SPEED = 160
+export const BOSS_REWARD = 500
+
+// Special block behaviours: zig-zag sway (world units) and period (ms), meteor acceleration (world units per second²),
+// explosion reach and damage, how often regenerating blocks heal (ms), and the shallowest shot armour gives way to
+// (degrees from vertical, so homing bullets nudging towards a target still bounce off)
+export const ZIGZAG_AMPLITUDE = 60
+export const ZIGZAG_PERIOD = 2000
+export const METEOR_ACCELERATION = 150
+export const EXPLOSION_RADIUS = 80
+export const EXPLOSION_DAMAGE = 3
+export const REGEN_INTERVAL = 1000
+export const MIN_ARMOR_ANGLE = 15
+
+// An enemy bullet passing within this distance of the player's center without hitting earns the dodge bonus
+export const DODGE_RADIUS = 64
+export const DODGE_BONUS = 5
+
+// Unbreakable blocks have very high HP
+export const UNBREAKABLE_HP = 999
+
+export const POWER_UP_TYPES: PowerUpType[] = [
+  "fireSpeed",
+  "multiDirectional",
+  "slowMotion",
+  "shield",
+  "piercing",
+  "homing",
+  "bomb",
+  "magnet",
+  "scoreMultiplier",
+  "laser",
+]
+
+// Power-up durations in ms. Bombs aren't timed, collecting one adds it to the stock.
+export const POWER_UP_DURATION: Record<PowerUpType, number> = {
+  fireSpeed: 10000,
+  multiDirectional: 10000,
+  slowMotion: 5000,
+  shield: 8000,
+  piercing: 10000,
+  homing: 10000,
+  bomb: 0,
+  magnet: 10000,
+  scoreMultiplier: 15000,
+  laser: 6000,
+}
+
+// Most bombs the player can hold, and how hard one hits the boss
+export const MAX_BOMBS = 3
+export const BOMB_BOSS_DAMAGE = 20
+
+// Homing bullets turn towards their target at most this many degrees per second
+export const HOMING_TURN_RATE = 240
+
+// Multi-directional fire adds a shot either side of the straight one, this far out (world units) and this many degrees
+// from vertical
+export const MULTI_SHOT_OFFSET = 8
+export const MULTI_SHOT_ANGLE = 30
+
+// Magnet pulls power-ups towards the ship at this speed (world units per second)
+export const MAGNET_SPEED = 300
+
+export const SCORE_MULTIPLIER = 2
+
+// Laser beam width (world units) and ms between each point of damage it deals
+export const LASER_WIDTH = 12
+export const LASER_INTERVAL = 50
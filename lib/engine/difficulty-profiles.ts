@@ -0,0 +1,174 @@
+import { MAX_LIVES } from "./constants"
+import type { Difficulty, DifficultyCurve, DifficultyProfile } from "./types"
+
+// Shorthand for a value that never changes
+const constant = (value: number): DifficultyCurve => ({ start: value, step: 0, every: 1 })
+
+const EASY: DifficultyProfile = {
+  id: "easy",
+  name: "Easy",
+  blockSpawnRate: { start: 2500, step: -200, every: 20, limit: 1000 },
+  blockFallSpeed: { start: 150, step: 20, every: 20, limit: 360 },
+  blocksPerWave: { start: 1, step: 1, every: 15, limit: 3 },
+  blockHp: { min: constant(1), max: { start: 5, step: 1, every: 30, limit: 10 } },
+  unbreakableChance: constant(0.05),
+  powerUpInterval: constant(15),
+  bossInterval: constant(90),
+  bossHp: { start: 150, step: 50, every: 90, limit: 400 },
+  specialBlockChance: { start: 0.05, step: 0.05, every: 30, limit: 0.25 },
+  turretChance: { start: 0, step: 0.02, every: 30, limit: 0.1 },
+  lives: 5,
+}
+
+// The original curve: +1 wave size every 10s up to 5, +30 fall speed every 15s, -300ms spawn rate every 20s down to 500ms
+const NORMAL: DifficultyProfile = {
+  id: "normal",
+  name: "Normal",
+  blockSpawnRate: { start: 2000, step: -300, every: 20, limit: 500 },
+  blockFallSpeed: { start: 180, step: 30, every: 15 },
+  blocksPerWave: { start: 1, step: 1, every: 10, limit: 5 },
+  blockHp: { min: constant(1), max: constant(10) },
+  unbreakableChance: constant(0.1),
+  powerUpInterval: constant(20),
+  bossInterval: constant(60),
+  bossHp: { start: 200, step: 100, every: 60, limit: 600 },
+  specialBlockChance: { start: 0.1, step: 0.05, every: 20, limit: 0.4 },
+  turretChance: { start: 0, step: 0.03, every: 20, limit: 0.2 },
+  lives: 3,
+}
+
+const HARD: DifficultyProfile = {
+  id: "hard",
+  name: "Hard",
+  blockSpawnRate: { start: 1600, step: -300, every: 15, limit: 400 },
+  blockFallSpeed: { start: 220, step: 40, every: 15 },
+  blocksPerWave: { start: 2, step: 1, every: 10, limit: 6 },
+  blockHp: { min: { start: 1, step: 1, every: 30, limit: 5 }, max: constant(10) },
+  unbreakableChance: { start: 0.15, step: 0.05, every: 30, limit: 0.25 },
+  powerUpInterval: constant(25),
+  bossInterval: constant(60),
+  bossHp: { start: 300, step: 100, every: 60, limit: 800 },
+  specialBlockChance: { start: 0.2, step: 0.05, every: 20, limit: 0.5 },
+  turretChance: { start: 0.05, step: 0.05, every: 20, limit: 0.3 },
+  lives: 2,
+}
+
+const INSANE: DifficultyProfile = {
+  id: "insane",
+  name: "Insane",
+  blockSpawnRate: { start: 1200, step: -200, every: 10, limit: 300 },
+  blockFallSpeed: { start: 280, step: 50, every: 10 },
+  blocksPerWave: { start: 3, step: 1, every: 10, limit: 8 },
+  blockHp: { min: { start: 3, step: 1, every: 20, limit: 8 }, max: constant(10) },
+  unbreakableChance: { start: 0.2, step: 0.05, every: 20, limit: 0.35 },
+  powerUpInterval: constant(30),
+  bossInterval: constant(45),
+  bossHp: { start: 400, step: 150, every: 45, limit: 1000 },
+  specialBlockChance: { start: 0.3, step: 0.1, every: 20, limit: 0.6 },
+  turretChance: { start: 0.1, step: 0.05, every: 15, limit: 0.4 },
+  lives: 1,
+}
+
+export const DIFFICULTY_PRESETS: DifficultyProfile[] = [EASY, NORMAL, HARD, INSANE]
+
+export const DEFAULT_DIFFICULTY = NORMAL
+
+// Look up a preset by id, falling back to the default for unknown ids
+export function getDifficultyPreset(id: string): DifficultyProfile {
+  return DIFFICULTY_PRESETS.find((profile) => profile.id === id) ?? DEFAULT_DIFFICULTY
+}
+
+// Value of a curve after `second` seconds of play
+export function evaluateCurve(curve: DifficultyCurve, second: number): number {
+  const value = curve.start + curve.step * Math.floor(second / curve.every)
+  if (curve.limit === undefined) return value
+  return curve.step < 0 ? Math.max(value, curve.limit) : Math.min(value, curve.limit)
+}
+
+// Evaluate every curve of a profile, writing into `into` to avoid allocating during play
+export function difficultyAt(profile: DifficultyProfile, second: number, into = {} as Difficulty): Difficulty {
+  into.blockSpawnRate = evaluateCurve(profile.blockSpawnRate, second)
+  into.blockFallSpeed = evaluateCurve(profile.blockFallSpeed, second)
+  into.blocksPerWave = Math.round(evaluateCurve(profile.blocksPerWave, second))
+  into.minBlockHp = Math.round(evaluateCurve(profile.blockHp.min, second))
+  into.maxBlockHp = Math.max(Math.round(evaluateCurve(profile.blockHp.max, second)), into.minBlockHp)
+  into.unbreakableChance = evaluateCurve(profile.unbreakableChance, second)
+  into.powerUpInterval = evaluateCurve(profile.powerUpInterval, second)
+  into.bossInterval = evaluateCurve(profile.bossInterval, second)
+  into.bossHp = Math.round(evaluateCurve(profile.bossHp, second))
+  into.specialBlockChance = evaluateCurve(profile.specialBlockChance, second)
+  into.turretChance = evaluateCurve(profile.turretChance, second)
+  return into
+}
+
+// Upper bounds for profiles loaded from replays, well above any built-in profile
+const MAX_BLOCKS_PER_WAVE = 12 // A full row of blocks across the world
+const MAX_BLOCK_HP = 100
+const MAX_BOSS_HP = 10000
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+
+// Check a curve's shape and that it stays within [min, max] for the whole run
+function validateCurve(name: string, data: unknown, min: number, max = Infinity): DifficultyCurve {
+  const curve = (data ?? {}) as Record<string, unknown>
+
+  if (!isFiniteNumber(curve.start) || !isFiniteNumber(curve.step) || !isFiniteNumber(curve.every)) {
+    throw new Error(`Difficulty curve "${name}" needs numeric start, step and every`)
+  }
+  if (curve.limit !== undefined && !isFiniteNumber(curve.limit)) {
+    throw new Error(`Difficulty curve "${name}" has a non-numeric limit`)
+  }
+  if (curve.every <= 0) {
+    throw new Error(`Difficulty curve "${name}" must change every positive number of seconds`)
+  }
+
+  const validated: DifficultyCurve = { start: curve.start, step: curve.step, every: curve.every }
+  if (curve.limit !== undefined) validated.limit = curve.limit
+
+  // A changing curve without a limit grows forever, so only its start and limit bound it
+  const end = validated.limit ?? (validated.step === 0 ? validated.start : validated.step * Infinity)
+  if (validated.start < min || validated.start > max || end < min || end > max) {
+    throw new Error(`Difficulty curve "${name}" must stay between ${min} and ${max}`)
+  }
+
+  return validated
+}
+
+// Validate a profile from an untrusted source (a replay file), throwing on the first problem
+export function validateDifficultyProfile(data: unknown): DifficultyProfile {
+  const profile = (data ?? {}) as Partial<DifficultyProfile>
+
+  if (typeof profile.id !== "string" || typeof profile.name !== "string") {
+    throw new Error("Difficulty profile needs an id and a name")
+  }
+
+  if (!Number.isInteger(profile.lives) || (profile.lives as number) < 1 || (profile.lives as number) > MAX_LIVES) {
+    throw new Error(`Difficulty profile needs a whole number of lives, from 1 to ${MAX_LIVES}`)
+  }
+
+  const blockHp = (profile.blockHp ?? {}) as Partial<DifficultyProfile["blockHp"]>
+  const validated: DifficultyProfile = {
+    id: profile.id,
+    name: profile.name,
+    blockSpawnRate: validateCurve("blockSpawnRate", profile.blockSpawnRate, 1),
+    blockFallSpeed: validateCurve("blockFallSpeed", profile.blockFallSpeed, 0),
+    blocksPerWave: validateCurve("blocksPerWave", profile.blocksPerWave, 0, MAX_BLOCKS_PER_WAVE),
+    blockHp: {
+      min: validateCurve("blockHp.min", blockHp.min, 1, MAX_BLOCK_HP),
+      max: validateCurve("blockHp.max", blockHp.max, 1, MAX_BLOCK_HP),
+    },
+    unbreakableChance: validateCurve("unbreakableChance", profile.unbreakableChance, 0, 1),
+    powerUpInterval: validateCurve("powerUpInterval", profile.powerUpInterval, 1),
+    bossInterval: validateCurve("bossInterval", profile.bossInterval, 10),
+    bossHp: validateCurve("bossHp", profile.bossHp, 1, MAX_BOSS_HP),
+    specialBlockChance: validateCurve("specialBlockChance", profile.specialBlockChance, 0, 1),
+    turretChance: validateCurve("turretChance", profile.turretChance, 0, 1),
+    lives: profile.lives as number,
+  }
+
+  if (validated.blockHp.min.start > validated.blockHp.max.start) {
+    throw new Error("Difficulty profile starts with a minimum block HP above the maximum")
+  }
+
+  return validated
+}
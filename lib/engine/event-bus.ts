@@ -0,0 +1,53 @@
+import type { GameEvent, GameEventType } from "./types"
+
+export type GameEventHandler<K extends GameEventType = GameEventType> = (event: GameEvent<K>) => void
+
+export interface GameEventBus {
+  // Subscribe to one event type; returns a function that unsubscribes
+  on: <K extends GameEventType>(type: K, handler: GameEventHandler<K>) => () => void
+  // Subscribe to every event, e.g. for analytics
+  onAny: (handler: GameEventHandler) => () => void
+  emit: (event: GameEvent) => void
+}
+
+// Fan engine events out to subscribers, so side effects (audio, HUD, achievements, analytics, haptics)
+// stay out of the simulation. A throwing handler is logged and doesn't stop the others.
+export function createEventBus(): GameEventBus {
+  const handlers = new Map<GameEventType, Set<GameEventHandler>>()
+  const anyHandlers = new Set<GameEventHandler>()
+
+  const call = (handler: GameEventHandler, event: GameEvent) => {
+    try {
+      handler(event)
+    } catch (error) {
+      console.error(`Error in ${event.type} handler:`, error)
+    }
+  }
+
+  return {
+    on(type, handler) {
+      let set = handlers.get(type)
+      if (!set) {
+        set = new Set()
+        handlers.set(type, set)
+      }
+
+      // Handlers for a type only ever receive events of that type
+      const entry = handler as GameEventHandler
+      set.add(entry)
+      return () => {
+        set.delete(entry)
+      }
+    },
+    onAny(handler) {
+      anyHandlers.add(handler)
+      return () => {
+        anyHandlers.delete(handler)
+      }
+    },
+    emit(event) {
+      handlers.get(event.type)?.forEach((handler) => call(handler, event))
+      anyHandlers.forEach((handler) => call(handler, event))
+    },
+  }
+}
@@ -0,0 +1,50 @@
+export * from "./constants"
+export * from "./types"
+export { createPlayerInput, createWorld, drainEvents } from "./world"
+export { step } from "./step"
+export {
+  getShapeBounds,
+  shapesOverlap,
+  type Bounds,
+  type BoxShape,
+  type CapsuleShape,
+  type CircleShape,
+  type CompoundShape,
+  type OrientedBoxShape,
+  type PrimitiveShape,
+  type Shape,
+} from "./shapes"
+export { createEventBus, type GameEventBus, type GameEventHandler } from "./event-bus"
+export {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_PRESETS,
+  difficultyAt,
+  getDifficultyPreset,
+  validateDifficultyProfile,
+} from "./difficulty-profiles"
+export { parseSeed, randomSeed } from "./random"
+export { createFixedStepLoop, FIXED_STEP, type FixedStepLoop } from "./loop"
+export { isPowerUpActive } from "./systems/power-ups"
+export { BOSS_PHASES, type BossPattern } from "./systems/boss"
+export { getBlockShape, SPECIAL_BLOCK_KINDS } from "./systems/blocks"
+export { getTurretAngle, TURRET_PATTERNS, TURRETS } from "./systems/turrets"
+export { createAutopilot } from "./autopilot"
+export {
+  BOTS,
+  scriptedInput,
+  simulate,
+  type InputSource,
+  type SimulationOptions,
+  type SimulationSummary,
+} from "./simulate"
+export {
+  createInputRecorder,
+  createReplayPlayer,
+  parseReplay,
+  serializeReplay,
+  validateInputFrames,
+  type InputFrame,
+  type InputRecorder,
+  type Replay,
+  type ReplayPlayer,
+} from "./replay"
@@ -0,0 +1,34 @@
+// Simulation rate - every step advances the world by exactly this many ms
+export const FIXED_STEP = 1000 / 60
+
+// Longest frame we try to catch up on, so a stalled tab doesn't trigger hundreds of steps
+const MAX_FRAME_TIME = 250
+
+export interface FixedStepLoop {
+  // Feed real elapsed time, running as many fixed steps as it covers; returns the step count
+  advance: (elapsed: number) => number
+  // Drop any banked time, e.g. after resuming
+  reset: () => void
+}
+
+// Accumulator-based fixed timestep, independent of the display refresh rate
+export function createFixedStepLoop(runStep: (dt: number) => void, stepSize = FIXED_STEP): FixedStepLoop {
+  let accumulator = 0
+
+  return {
+    advance(elapsed) {
+      accumulator += Math.min(Math.max(elapsed, 0), MAX_FRAME_TIME)
+
+      let steps = 0
+      while (accumulator >= stepSize) {
+        runStep(stepSize)
+        accumulator -= stepSize
+        steps++
+      }
+      return steps
+    },
+    reset() {
+      accumulator = 0
+    },
+  }
+}
@@ -0,0 +1,64 @@
+import { POOL_LIMITS } from "./constants"
+import type { EntityPools, World } from "./types"
+
+type PoolKind = keyof EntityPools
+type PooledEntity<K extends PoolKind> = EntityPools[K][number]
+
+// Blank entities for when a pool runs dry - callers overwrite every field after acquiring
+const FACTORIES: { [K in PoolKind]: () => PooledEntity<K> } = {
+  bullets: () => ({ id: 0, x: 0, y: 0, angle: 0, piercing: false, homing: false, hitIds: [] }),
+  blocks: () => ({
+    id: 0,
+    kind: "normal",
+    x: 0,
+    y: 0,
+    size: 0,
+    hp: 0,
+    maxHp: 0,
+    hitFlash: 0,
+    isBreakable: true,
+    age: 0,
+    originX: 0,
+    regenTimer: 0,
+    pattern: "aimed",
+    fireTimer: 0,
+  }),
+  powerUps: () => ({ id: 0, x: 0, y: 0, type: "fireSpeed" }),
+  enemyBullets: () => ({ id: 0, x: 0, y: 0, vx: 0, vy: 0, nearMiss: false }),
+}
+
+// Reuse a retired entity of this kind if available, with a fresh id
+export function acquire<K extends PoolKind>(world: World, kind: K): PooledEntity<K> {
+  const pool = world.pools[kind] as PooledEntity<K>[]
+  const entity = pool.pop() ?? FACTORIES[kind]()
+  entity.id = world.nextId++
+  return entity
+}
+
+// Retire an entity, keeping at most POOL_LIMITS of each kind in memory
+export function release<K extends PoolKind>(world: World, kind: K, entity: PooledEntity<K>) {
+  const pool = world.pools[kind] as PooledEntity<K>[]
+  if (pool.length < POOL_LIMITS[kind]) {
+    pool.push(entity)
+  }
+}
+
+// Remove matching live entities in place and retire them, without allocating a new array
+export function removeWhere<K extends PoolKind>(
+  world: World,
+  kind: K,
+  shouldRemove: (entity: PooledEntity<K>, world: World) => boolean,
+) {
+  const entities = world[kind] as PooledEntity<K>[]
+  let kept = 0
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i]
+    if (shouldRemove(entity, world)) {
+      release(world, kind, entity)
+    } else {
+      entities[kept++] = entity
+    }
+  }
+  entities.length = kept
+}
@@ -0,0 +1,39 @@
+import type { World } from "./types"
+
+// Pick a fresh 32-bit seed for a new run
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000)
+}
+
+// Turn user input into a seed - plain integers are used as-is, anything else is hashed (FNV-1a)
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim()
+  if (trimmed === "") return null
+
+  if (/^\d+$/.test(trimmed)) {
+    const value = Number(trimmed)
+    if (Number.isSafeInteger(value)) return value >>> 0
+  }
+
+  let hash = 0x811c9dc5
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Mulberry32 - returns a float in [0, 1) and advances the world's generator state.
+// The state is a plain number so worlds stay serializable and runs can be reproduced.
+export function random(world: World): number {
+  world.rngState = (world.rngState + 0x6d2b79f5) >>> 0
+  let t = world.rngState
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+}
+
+// Random integer in [0, max)
+export function randomInt(world: World, max: number): number {
+  return Math.floor(random(world) * max)
+}
@@ -0,0 +1,196 @@
+import { validateDifficultyProfile } from "./difficulty-profiles"
+import { FIXED_STEP } from "./loop"
+import { step } from "./step"
+import type { DifficultyProfile, PlayerInput, World } from "./types"
+import { createWorld, drainEvents } from "./world"
+
+const REPLAY_VERSION = 13
+
+// Input in effect from `tick` until the next frame
+export interface InputFrame {
+  tick: number
+  input: PlayerInput
+}
+
+// Everything needed to re-run a game exactly: the seed, the difficulty profile and every input change
+export interface Replay {
+  version: number
+  seed: number
+  profile: DifficultyProfile // Stored whole so replays survive later preset tuning
+  ticks: number // Total steps simulated
+  score: number
+  frames: InputFrame[]
+}
+
+export interface InputRecorder {
+  // Call once per step, before stepping, with the input about to be applied
+  record: (world: World, input: PlayerInput) => void
+  finish: (world: World) => Replay
+}
+
+function sameDrag(a: PlayerInput["drag"], b: PlayerInput["drag"]): boolean {
+  if (a === null || b === null) return a === b
+  return a.x === b.x && a.y === b.y
+}
+
+function sameInput(frame: InputFrame, input: PlayerInput): boolean {
+  return (
+    frame.input.moveX === input.moveX &&
+    frame.input.moveY === input.moveY &&
+    frame.input.fire === input.fire &&
+    frame.input.bomb === input.bomb &&
+    sameDrag(frame.input.drag, input.drag)
+  )
+}
+
+// Record input changes only, keyed by simulation tick
+export function createInputRecorder(): InputRecorder {
+  const frames: InputFrame[] = []
+
+  return {
+    record(world, input) {
+      const last = frames[frames.length - 1]
+      if (last && sameInput(last, input)) return
+
+      frames.push({
+        tick: world.tick,
+        input: { ...input, drag: input.drag && { ...input.drag } },
+      })
+    },
+    finish(world) {
+      return {
+        version: REPLAY_VERSION,
+        seed: world.seed,
+        profile: world.profile,
+        ticks: world.tick,
+        score: world.score,
+        frames: frames.slice(),
+      }
+    },
+  }
+}
+
+export interface ReplayPlayer {
+  readonly replay: Replay
+  readonly world: World
+  // Run one recorded step; returns false once the replay is over
+  stepOnce: () => boolean
+  // Jump to a tick by re-simulating from the start
+  seek: (tick: number) => void
+  isFinished: () => boolean
+}
+
+// Re-run a replay deterministically from its seed
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  let world: World
+  let frameIndex: number
+
+  const restart = () => {
+    world = createWorld(replay.seed, replay.profile)
+    frameIndex = 0
+  }
+
+  const isFinished = () => world.tick >= replay.ticks || world.status !== "playing"
+
+  const stepOnce = () => {
+    if (isFinished()) return false
+
+    // Advance to the frame in effect for this tick
+    while (frameIndex + 1 < replay.frames.length && replay.frames[frameIndex + 1].tick <= world.tick) {
+      frameIndex++
+    }
+
+    step(world, replay.frames[frameIndex].input, FIXED_STEP)
+    drainEvents(world)
+    return true
+  }
+
+  restart()
+
+  return {
+    replay,
+    get world() {
+      return world
+    },
+    stepOnce,
+    seek(tick) {
+      if (tick < world.tick) restart()
+      while (world.tick < tick && stepOnce()) {
+        // Fast-forward without rendering
+      }
+    },
+    isFinished,
+  }
+}
+
+// Serialize a replay for download or sharing
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay)
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value)
+const isAxis = (value: unknown) => isFiniteNumber(value) && value >= -1 && value <= 1
+
+// Validate input frames from an untrusted source (a replay or inputs file), throwing on the first bad frame
+export function validateInputFrames(data: unknown): InputFrame[] {
+  if (!Array.isArray(data)) {
+    throw new Error("Input frames must be an array")
+  }
+
+  let lastTick = 0
+  return data.map((frame: Partial<InputFrame> | null, index) => {
+    const tick = frame?.tick
+    if (!Number.isInteger(tick) || (tick as number) < lastTick) {
+      throw new Error(`Input frame ${index} needs a whole tick, no earlier than the frame before`)
+    }
+    lastTick = tick as number
+
+    const input = (frame?.input ?? null) as Partial<Record<keyof PlayerInput, unknown>> | null
+    const drag = input?.drag as Partial<Record<"x" | "y", unknown>> | null | undefined
+    if (
+      !input ||
+      !isAxis(input.moveX) ||
+      !isAxis(input.moveY) ||
+      typeof input.fire !== "boolean" ||
+      typeof input.bomb !== "boolean" ||
+      (drag !== null && (typeof drag !== "object" || !isFiniteNumber(drag.x) || !isFiniteNumber(drag.y)))
+    ) {
+      throw new Error(`Input frame ${index} has invalid input`)
+    }
+
+    return {
+      tick: lastTick,
+      input: {
+        moveX: input.moveX as number,
+        moveY: input.moveY as number,
+        fire: input.fire,
+        bomb: input.bomb,
+        drag: drag === null ? null : { x: drag.x as number, y: drag.y as number },
+      },
+    }
+  })
+}
+
+// Parse and validate a shared replay
+export function parseReplay(json: string): Replay {
+  const data = JSON.parse(json) as Partial<Replay>
+
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`)
+  }
+  if (typeof data.seed !== "number" || typeof data.ticks !== "number" || !Array.isArray(data.frames)) {
+    throw new Error("Replay is missing its seed, length or input frames")
+  }
+  if (data.frames.length === 0) {
+    throw new Error("Replay has no input frames")
+  }
+
+  return {
+    version: data.version,
+    seed: data.seed,
+    profile: validateDifficultyProfile(data.profile),
+    ticks: data.ticks,
+    score: typeof data.score === "number" ? data.score : 0,
+    frames: validateInputFrames(data.frames),
+  }
+}
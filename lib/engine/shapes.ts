@@ -0,0 +1,310 @@
+// Collision shapes, positioned relative to an entity's top-left corner.
+// Everything is tested as a convex core (point, segment or quad) grown by a radius,
+// which covers circles, capsules and rectangles with the same few routines.
+
+export interface CircleShape {
+  kind: "circle"
+  x: number // Center
+  y: number
+  radius: number
+}
+
+export interface CapsuleShape {
+  kind: "capsule"
+  ax: number // Segment end points, the capsule extends `radius` around the segment
+  ay: number
+  bx: number
+  by: number
+  radius: number
+}
+
+export interface BoxShape {
+  kind: "box"
+  x: number // Top-left corner
+  y: number
+  width: number
+  height: number
+}
+
+// A rectangle rotated around its center by the entity's angle
+export interface OrientedBoxShape {
+  kind: "orientedBox"
+  x: number // Center
+  y: number
+  width: number
+  height: number
+}
+
+export type PrimitiveShape = CircleShape | CapsuleShape | BoxShape | OrientedBoxShape
+
+// Several shapes that together make up one hitbox; hit if any part is
+export interface CompoundShape {
+  kind: "compound"
+  parts: PrimitiveShape[]
+}
+
+export type Shape = PrimitiveShape | CompoundShape
+
+// Axis-aligned box, relative to the entity like the shapes themselves
+export interface Bounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Convex core of a primitive placed in the world, grown by `radius`
+interface Convex {
+  count: number // 1 for a point, 2 for a segment, 4 for a quad
+  xs: Float64Array
+  ys: Float64Array
+  radius: number
+}
+
+const createConvex = (): Convex => ({ count: 0, xs: new Float64Array(4), ys: new Float64Array(4), radius: 0 })
+
+// Scratch cores reused by every test so collision checks don't allocate
+const convexA = createConvex()
+const convexB = createConvex()
+
+function setQuad(out: Convex, cx: number, cy: number, halfWidth: number, halfHeight: number, angle: number) {
+  // Same rotation as the canvas: positive angles turn clockwise on screen
+  const radians = (angle * Math.PI) / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+
+  out.count = 4
+  out.radius = 0
+  for (let i = 0; i < 4; i++) {
+    const dx = i === 0 || i === 3 ? -halfWidth : halfWidth
+    const dy = i < 2 ? -halfHeight : halfHeight
+    out.xs[i] = cx + dx * cos - dy * sin
+    out.ys[i] = cy + dx * sin + dy * cos
+  }
+}
+
+// Place a primitive at an entity position; `angle` (degrees) only turns oriented boxes
+function resolve(shape: PrimitiveShape, x: number, y: number, angle: number, out: Convex) {
+  switch (shape.kind) {
+    case "circle":
+      out.count = 1
+      out.xs[0] = x + shape.x
+      out.ys[0] = y + shape.y
+      out.radius = shape.radius
+      break
+    case "capsule":
+      out.count = 2
+      out.xs[0] = x + shape.ax
+      out.ys[0] = y + shape.ay
+      out.xs[1] = x + shape.bx
+      out.ys[1] = y + shape.by
+      out.radius = shape.radius
+      break
+    case "box":
+      setQuad(out, x + shape.x + shape.width / 2, y + shape.y + shape.height / 2, shape.width / 2, shape.height / 2, 0)
+      break
+    case "orientedBox":
+      setQuad(out, x + shape.x, y + shape.y, shape.width / 2, shape.height / 2, angle)
+      break
+  }
+}
+
+// Do the projections of two quads onto the normal of edge i of `a` leave a gap?
+function separatedOnEdge(a: Convex, b: Convex, i: number): boolean {
+  const j = (i + 1) % a.count
+  const nx = a.ys[j] - a.ys[i]
+  const ny = a.xs[i] - a.xs[j]
+
+  let minA = Infinity
+  let maxA = -Infinity
+  let minB = Infinity
+  let maxB = -Infinity
+  for (let k = 0; k < a.count; k++) {
+    const p = a.xs[k] * nx + a.ys[k] * ny
+    minA = Math.min(minA, p)
+    maxA = Math.max(maxA, p)
+  }
+  for (let k = 0; k < b.count; k++) {
+    const p = b.xs[k] * nx + b.ys[k] * ny
+    minB = Math.min(minB, p)
+    maxB = Math.max(maxB, p)
+  }
+
+  // Touching edges don't count, like the strict box test this replaces
+  return maxA <= minB || maxB <= minA
+}
+
+// Separating axis test between two quads
+function quadsOverlap(a: Convex, b: Convex): boolean {
+  for (let i = 0; i < a.count; i++) {
+    if (separatedOnEdge(a, b, i)) return false
+  }
+  for (let i = 0; i < b.count; i++) {
+    if (separatedOnEdge(b, a, i)) return false
+  }
+  return true
+}
+
+// Is the point inside (or on the edge of) a convex quad?
+function quadContains(quad: Convex, px: number, py: number): boolean {
+  let sign = 0
+  for (let i = 0; i < quad.count; i++) {
+    const j = (i + 1) % quad.count
+    const cross = (quad.xs[j] - quad.xs[i]) * (py - quad.ys[i]) - (quad.ys[j] - quad.ys[i]) * (px - quad.xs[i])
+    if (cross === 0) continue
+    if (sign === 0) sign = Math.sign(cross)
+    else if (Math.sign(cross) !== sign) return false
+  }
+  return true
+}
+
+// Squared distance from point p to segment ab
+function pointSegmentDistanceSq(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax
+  const dy = by - ay
+  const lengthSq = dx * dx + dy * dy
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq))
+  const ex = ax + dx * t - px
+  const ey = ay + dy * t - py
+  return ex * ex + ey * ey
+}
+
+// Signed area test used to detect crossing segments
+const orient = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) =>
+  (bx - ax) * (cy - ay) - (by - ay) * (cx - ax)
+
+// Squared distance between segments ab and cd (either may be a single point)
+function segmentDistanceSq(
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number,
+  cx: number,
+  cy: number,
+  dx: number,
+  dy: number,
+): number {
+  const d1 = orient(ax, ay, bx, by, cx, cy)
+  const d2 = orient(ax, ay, bx, by, dx, dy)
+  const d3 = orient(cx, cy, dx, dy, ax, ay)
+  const d4 = orient(cx, cy, dx, dy, bx, by)
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return 0
+
+  return Math.min(
+    pointSegmentDistanceSq(ax, ay, cx, cy, dx, dy),
+    pointSegmentDistanceSq(bx, by, cx, cy, dx, dy),
+    pointSegmentDistanceSq(cx, cy, ax, ay, bx, by),
+    pointSegmentDistanceSq(dx, dy, ax, ay, bx, by),
+  )
+}
+
+// Squared distance between two convex cores, 0 when they intersect
+function coreDistanceSq(a: Convex, b: Convex): number {
+  if (b.count === 4 && quadContains(b, a.xs[0], a.ys[0])) return 0
+  if (a.count === 4 && quadContains(a, b.xs[0], b.ys[0])) return 0
+
+  // A single point or segment is its own only "edge"
+  const edgesA = a.count === 4 ? 4 : 1
+  const edgesB = b.count === 4 ? 4 : 1
+  let best = Infinity
+
+  for (let i = 0; i < edgesA; i++) {
+    const i2 = a.count === 1 ? i : (i + 1) % a.count
+    for (let j = 0; j < edgesB; j++) {
+      const j2 = b.count === 1 ? j : (j + 1) % b.count
+      best = Math.min(
+        best,
+        segmentDistanceSq(a.xs[i], a.ys[i], a.xs[i2], a.ys[i2], b.xs[j], b.ys[j], b.xs[j2], b.ys[j2]),
+      )
+      if (best === 0) return 0
+    }
+  }
+
+  return best
+}
+
+function convexOverlap(a: Convex, b: Convex): boolean {
+  const radius = a.radius + b.radius
+  if (radius === 0) return quadsOverlap(a, b)
+  return coreDistanceSq(a, b) < radius * radius
+}
+
+function primitivesOverlap(
+  a: PrimitiveShape,
+  ax: number,
+  ay: number,
+  aAngle: number,
+  b: PrimitiveShape,
+  bx: number,
+  by: number,
+  bAngle: number,
+): boolean {
+  resolve(a, ax, ay, aAngle, convexA)
+  resolve(b, bx, by, bAngle, convexB)
+  return convexOverlap(convexA, convexB)
+}
+
+// Do two shapes placed at entity positions overlap? Angles are in degrees and only turn oriented boxes.
+export function shapesOverlap(
+  a: Shape,
+  ax: number,
+  ay: number,
+  aAngle: number,
+  b: Shape,
+  bx: number,
+  by: number,
+  bAngle: number,
+): boolean {
+  if (a.kind === "compound") {
+    for (const part of a.parts) {
+      if (shapesOverlap(part, ax, ay, aAngle, b, bx, by, bAngle)) return true
+    }
+    return false
+  }
+  if (b.kind === "compound") {
+    for (const part of b.parts) {
+      if (primitivesOverlap(a, ax, ay, aAngle, part, bx, by, bAngle)) return true
+    }
+    return false
+  }
+  return primitivesOverlap(a, ax, ay, aAngle, b, bx, by, bAngle)
+}
+
+function primitiveBounds(shape: PrimitiveShape): Bounds {
+  switch (shape.kind) {
+    case "circle":
+      return { x: shape.x - shape.radius, y: shape.y - shape.radius, width: shape.radius * 2, height: shape.radius * 2 }
+    case "capsule": {
+      const x = Math.min(shape.ax, shape.bx) - shape.radius
+      const y = Math.min(shape.ay, shape.by) - shape.radius
+      return {
+        x,
+        y,
+        width: Math.abs(shape.bx - shape.ax) + shape.radius * 2,
+        height: Math.abs(shape.by - shape.ay) + shape.radius * 2,
+      }
+    }
+    case "box":
+      return { x: shape.x, y: shape.y, width: shape.width, height: shape.height }
+    case "orientedBox": {
+      // Covers every rotation, so the bounds don't depend on the angle
+      const radius = Math.hypot(shape.width, shape.height) / 2
+      return { x: shape.x - radius, y: shape.y - radius, width: radius * 2, height: radius * 2 }
+    }
+  }
+}
+
+// Box containing the shape at any angle, used for the broadphase
+export function getShapeBounds(shape: Shape): Bounds {
+  if (shape.kind !== "compound") return primitiveBounds(shape)
+
+  const parts = shape.parts.map(primitiveBounds)
+  const x = Math.min(...parts.map((part) => part.x))
+  const y = Math.min(...parts.map((part) => part.y))
+  return {
+    x,
+    y,
+    width: Math.max(...parts.map((part) => part.x + part.width)) - x,
+    height: Math.max(...parts.map((part) => part.y + part.height)) - y,
+  }
+}
@@ -0,0 +1,115 @@
+import { createAutopilot } from "./autopilot"
+import { DEFAULT_DIFFICULTY } from "./difficulty-profiles"
+import { createEventBus, type GameEventBus } from "./event-bus"
+import { FIXED_STEP } from "./loop"
+import type { InputFrame } from "./replay"
+import { step } from "./step"
+import type { DeathCause, DifficultyProfile, PlayerInput, World } from "./types"
+import { createPlayerInput, createWorld, drainEvents } from "./world"
+
+// Supplies the input for the next step, given the world about to be stepped
+export type InputSource = (world: World) => PlayerInput
+
+export interface SimulationOptions {
+  seed: number
+  profile?: DifficultyProfile
+  maxTicks: number // Stop after this many steps if the player is still alive
+  input: InputSource
+  bus?: GameEventBus // Receives every engine event, for callers that want more than the summary
+}
+
+export interface SimulationSummary {
+  seed: number
+  difficulty: string // Profile id
+  ticks: number
+  survivalTime: number // Seconds of simulated play
+  score: number
+  blocksDestroyed: number
+  bossesDefeated: number
+  shotsDodged: number
+  powerUpsCollected: number
+  causeOfDeath: DeathCause | null // null when the run hit maxTicks alive
+}
+
+const NO_INPUT = createPlayerInput()
+
+// Play back recorded input frames, e.g. from a replay; holds the last frame once they run out
+export function scriptedInput(frames: InputFrame[]): InputSource {
+  let index = 0
+
+  return (world) => {
+    while (index + 1 < frames.length && frames[index + 1].tick <= world.tick) {
+      index++
+    }
+    return frames[index]?.input ?? NO_INPUT
+  }
+}
+
+// Baseline bots for balance runs
+export const BOTS: Record<string, () => InputSource> = {
+  // Holds fire and never moves - how long does standing still survive?
+  idle: () => {
+    const input: PlayerInput = { ...NO_INPUT, fire: true }
+    return () => input
+  },
+  // Holds fire and sweeps across the screen, turning every 1.5s
+  sweep: () => {
+    const input: PlayerInput = { ...NO_INPUT, fire: true }
+    return (world) => {
+      input.moveX = Math.floor(world.tick / 90) % 2 === 0 ? -1 : 1
+      return input
+    }
+  },
+  // Dodges blocks, chases power-ups and shoots weak blocks
+  autopilot: createAutopilot,
+}
+
+// Run a game to completion without a DOM, as fast as possible
+export function simulate({
+  seed,
+  profile = DEFAULT_DIFFICULTY,
+  maxTicks,
+  input,
+  bus,
+}: SimulationOptions): SimulationSummary {
+  const world = createWorld(seed, profile)
+  const events = bus ?? createEventBus()
+
+  let blocksDestroyed = 0
+  let bossesDefeated = 0
+  let shotsDodged = 0
+  let powerUpsCollected = 0
+  let causeOfDeath: DeathCause | null = null
+
+  const unsubscribers = [
+    events.on("blockDestroyed", () => blocksDestroyed++),
+    events.on("bossDefeated", () => bossesDefeated++),
+    events.on("shotDodged", () => shotsDodged++),
+    events.on("powerUpCollected", () => powerUpsCollected++),
+    events.on("playerDied", (event) => {
+      causeOfDeath = event.cause
+    }),
+  ]
+
+  while (world.status === "playing" && world.tick < maxTicks) {
+    step(world, input(world), FIXED_STEP)
+    for (const event of drainEvents(world)) {
+      events.emit(event)
+    }
+  }
+
+  unsubscribers.forEach((unsubscribe) => unsubscribe())
+
+  return {
+    seed,
+    difficulty: profile.id,
+    ticks: world.tick,
+    survivalTime: Math.round(world.time) / 1000,
+    score: world.score,
+    blocksDestroyed,
+    bossesDefeated,
+    shotsDodged,
+    powerUpsCollected,
+    causeOfDeath,
+  }
+}
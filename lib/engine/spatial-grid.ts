@@ -0,0 +1,81 @@
+// Cell size in pixels - a little larger than the biggest entity so most items touch few cells
+export const GRID_CELL_SIZE = 64
+
+// Offset that keeps cell coordinates positive so they pack into a single numeric key
+const CELL_OFFSET = 1 << 15
+
+export interface SpatialGrid<T> {
+  clear: () => void
+  insert: (item: T, x: number, y: number, width: number, height: number) => void
+  // Visit every item whose cells overlap the box, once each; return true from visit to stop early
+  query: (x: number, y: number, width: number, height: number, visit: (item: T) => boolean | void) => void
+  // First item overlapping the box's cells that matches the predicate
+  find: (x: number, y: number, width: number, height: number, predicate: (item: T) => boolean) => T | null
+}
+
+// Uniform grid broadphase. Buckets are reused between clears so rebuilding every step doesn't allocate.
+export function createSpatialGrid<T>(cellSize = GRID_CELL_SIZE): SpatialGrid<T> {
+  const cells = new Map<number, T[]>()
+  const usedCells: T[][] = []
+  const visited = new Set<T>()
+
+  const cellKey = (cx: number, cy: number) => (cy + CELL_OFFSET) * (CELL_OFFSET * 2) + (cx + CELL_OFFSET)
+
+  // Visit items overlapping the box's cells once each, returning the first one visit accepts
+  const scan = (x: number, y: number, width: number, height: number, visit: (item: T) => boolean | void): T | null => {
+    const minX = Math.floor(x / cellSize)
+    const maxX = Math.floor((x + width) / cellSize)
+    const minY = Math.floor(y / cellSize)
+    const maxY = Math.floor((y + height) / cellSize)
+
+    visited.clear()
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const bucket = cells.get(cellKey(cx, cy))
+        if (!bucket) continue
+
+        for (const item of bucket) {
+          if (visited.has(item)) continue
+          visited.add(item)
+          if (visit(item) === true) return item
+        }
+      }
+    }
+    return null
+  }
+
+  return {
+    clear() {
+      for (const bucket of usedCells) {
+        bucket.length = 0
+      }
+      usedCells.length = 0
+    },
+
+    insert(item, x, y, width, height) {
+      const minX = Math.floor(x / cellSize)
+      const maxX = Math.floor((x + width) / cellSize)
+      const minY = Math.floor(y / cellSize)
+      const maxY = Math.floor((y + height) / cellSize)
+
+      for (let cy = minY; cy <= maxY; cy++) {
+        for (let cx = minX; cx <= maxX; cx++) {
+          const key = cellKey(cx, cy)
+          let bucket = cells.get(key)
+          if (!bucket) {
+            bucket = []
+            cells.set(key, bucket)
+          }
+          if (bucket.length === 0) usedCells.push(bucket)
+          bucket.push(item)
+        }
+      }
+    },
+
+    query(x, y, width, height, visit) {
+      scan(x, y, width, height, visit)
+    },
+
+    find: scan,
+  }
+}
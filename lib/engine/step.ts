@@ -0,0 +1,39 @@
+import { updateBoss } from "./systems/boss"
+import {
+  buildBroadphase,
+  checkBulletCollisions,
+  checkEnemyBulletCollisions,
+  checkPlayerCollisions,
+} from "./systems/collision"
+import { updateClock } from "./systems/difficulty"
+import { moveBullets, moveEnemyBullets, moveObjects, movePlayer } from "./systems/movement"
+import { updatePowerUpTimers } from "./systems/power-ups"
+import { updateSpawning } from "./systems/spawn"
+import { updateTurrets } from "./systems/turrets"
+import { updateBomb, updateFiring } from "./systems/weapons"
+import type { PlayerInput, World } from "./types"
+
+// Advance the simulation by dt milliseconds, normally one FIXED_STEP
+export function step(world: World, input: PlayerInput, dt: number) {
+  if (world.status !== "playing") return
+
+  world.tick++
+  updateClock(world, dt)
+  updatePowerUpTimers(world, dt)
+  world.invulnerableTime = Math.max(0, world.invulnerableTime - dt)
+  updateSpawning(world, dt)
+  updateBoss(world, dt)
+  updateTurrets(world, dt)
+
+  movePlayer(world, input, dt)
+  updateFiring(world, input, dt)
+  updateBomb(world, input)
+  moveBullets(world, dt)
+  moveObjects(world, dt)
+  moveEnemyBullets(world, dt)
+
+  buildBroadphase(world)
+  checkBulletCollisions(world)
+  checkPlayerCollisions(world)
+  checkEnemyBulletCollisions(world)
+}
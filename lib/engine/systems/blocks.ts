@@ -0,0 +1,154 @@
+import {
+  BLOCK_SHAPE,
+  BLOCK_SIZE,
+  EXPLOSION_DAMAGE,
+  EXPLOSION_RADIUS,
+  HIT_FLASH_DURATION,
+  METEOR_ACCELERATION,
+  REGEN_INTERVAL,
+  SMALL_BLOCK_SHAPE,
+  SMALL_BLOCK_SIZE,
+  ZIGZAG_AMPLITUDE,
+  ZIGZAG_PERIOD,
+} from "../constants"
+import { acquire, removeWhere } from "../pool"
+import type { Block, BlockKind, World } from "../types"
+import { addScore, isPowerUpActive } from "./power-ups"
+
+// Behaviours a breakable block can spawn with, picked uniformly:
+// - zigzag: weaves side to side as it falls
+// - meteor: keeps accelerating
+// - splitter: breaks into two small blocks
+// - explosive: damages the blocks around it when destroyed
+// - regenerating: heals while it isn't being hit
+// - armored: straight shots bounce off, only angled ones do damage
+export const SPECIAL_BLOCK_KINDS: BlockKind[] = ["zigzag", "meteor", "splitter", "explosive", "regenerating", "armored"]
+
+export const getBlockShape = (block: Block) => (block.size === SMALL_BLOCK_SIZE ? SMALL_BLOCK_SHAPE : BLOCK_SHAPE)
+
+export const isDestroyed = (block: Block) => block.isBreakable && block.hp <= 0
+
+// One point of damage from a bullet or the laser. Unbreakable blocks only flash.
+export function damageBlock(world: World, block: Block) {
+  block.hitFlash = HIT_FLASH_DURATION
+  if (block.isBreakable) {
+    block.hp -= 1
+    block.regenTimer = REGEN_INTERVAL
+    addScore(world, 1)
+  }
+  world.events.push({ type: "blockHit", tick: world.tick, blockId: block.id, hp: block.hp })
+}
+
+// Take a block from the pool with every field set and add it to the world
+export function spawnBlock(
+  world: World,
+  kind: BlockKind,
+  x: number,
+  y: number,
+  size: number,
+  hp: number,
+  isBreakable: boolean,
+): Block {
+  const block = acquire(world, "blocks")
+  block.kind = kind
+  block.x = x
+  block.y = y
+  block.size = size
+  block.hp = hp
+  block.maxHp = hp
+  block.hitFlash = 0
+  block.isBreakable = isBreakable
+  block.age = 0
+  block.originX = x
+  block.regenTimer = REGEN_INTERVAL
+  block.pattern = "aimed"
+  block.fireTimer = 0
+  world.blocks.push(block)
+  return block
+}
+
+// How fast a block falls right now, in world units per second. Meteors keep speeding up,
+// and slow-motion halves the whole speed, acceleration included.
+export function blockSpeed(world: World, block: Block): number {
+  const fallSpeed = world.difficulty.blockFallSpeed
+  const speed = block.kind === "meteor" ? fallSpeed + (METEOR_ACCELERATION * block.age) / 1000 : fallSpeed
+  return isPowerUpActive(world, "slowMotion") ? speed * 0.5 : speed
+}
+
+// Fall at the current speed, weaving, accelerating or healing according to the block's kind
+export function updateBlock(block: Block, world: World, dt: number) {
+  block.age += dt
+  block.y += (blockSpeed(world, block) * dt) / 1000
+
+  if (block.kind === "zigzag") {
+    const sway = Math.sin((block.age / ZIGZAG_PERIOD) * Math.PI * 2) * ZIGZAG_AMPLITUDE
+    block.x = Math.max(0, Math.min(world.width - block.size, block.originX + sway))
+  }
+
+  if (block.kind === "regenerating" && block.hp < block.maxHp) {
+    block.regenTimer -= dt
+    if (block.regenTimer <= 0) {
+      block.hp += 1
+      block.regenTimer = REGEN_INTERVAL
+    }
+  }
+}
+
+// Halves and blasts of blocks destroyed this step, applied once those blocks are out of the list
+const splits: { x: number; y: number; hp: number }[] = []
+const blasts: { blockId: number; x: number; y: number }[] = []
+
+const retireIfDestroyed = (block: Block, world: World) => {
+  if (!isDestroyed(block)) return false
+
+  world.events.push({ type: "blockDestroyed", tick: world.tick, blockId: block.id, x: block.x, y: block.y })
+  if (block.kind === "splitter" && block.size === BLOCK_SIZE) {
+    splits.push({ x: block.x, y: block.y, hp: Math.max(1, Math.ceil(block.maxHp / 2)) })
+  }
+  if (block.kind === "explosive") {
+    blasts.push({ blockId: block.id, x: block.x + block.size / 2, y: block.y + block.size / 2 })
+  }
+  return true
+}
+
+// Damage every breakable block within reach of a blast, armour or not
+function explode(world: World, blockId: number, x: number, y: number) {
+  world.events.push({ type: "blockExploded", tick: world.tick, blockId, x, y, radius: EXPLOSION_RADIUS })
+
+  for (const block of world.blocks) {
+    if (!block.isBreakable || block.hp <= 0) continue
+
+    const distance = Math.hypot(block.x + block.size / 2 - x, block.y + block.size / 2 - y)
+    if (distance > EXPLOSION_RADIUS) continue
+
+    const damage = Math.min(block.hp, EXPLOSION_DAMAGE)
+    block.hp -= damage
+    block.hitFlash = HIT_FLASH_DURATION
+    addScore(world, damage)
+  }
+}
+
+// Remove blocks with 0 HP, then split and detonate them. Blasts can destroy more blocks, so chain reactions
+// keep going until nothing else breaks.
+export function removeDestroyedBlocks(world: World) {
+  removeWhere(world, "blocks", retireIfDestroyed)
+
+  while (splits.length > 0 || blasts.length > 0) {
+    for (const split of splits) {
+      // Side by side where the parent was
+      const offset = (BLOCK_SIZE - SMALL_BLOCK_SIZE) / 2
+      for (const side of [-1, 1]) {
+        const x = Math.max(0, Math.min(world.width - SMALL_BLOCK_SIZE, split.x + offset + side * SMALL_BLOCK_SIZE))
+        spawnBlock(world, "normal", x, split.y + offset, SMALL_BLOCK_SIZE, split.hp, true)
+      }
+    }
+    splits.length = 0
+
+    for (const blast of blasts) {
+      explode(world, blast.blockId, blast.x, blast.y)
+    }
+    blasts.length = 0
+
+    removeWhere(world, "blocks", retireIfDestroyed)
+  }
+}
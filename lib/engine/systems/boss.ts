@@ -0,0 +1,137 @@
+import {
+  BOSS_HEIGHT,
+  BOSS_HOVER_Y,
+  BOSS_REWARD,
+  BOSS_SPEED,
+  BOSS_WARNING_DURATION,
+  BOSS_WIDTH,
+  HIT_FLASH_DURATION,
+  PLAYER_SIZE,
+} from "../constants"
+import type { Boss, World } from "../types"
+import { addScore } from "./power-ups"
+
+export type BossPattern = "sweep" | "weave" | "charge"
+
+// Phases in order, each starting once HP drops to `below` of the maximum
+export const BOSS_PHASES: { below: number; pattern: BossPattern; speed: number }[] = [
+  { below: 1, pattern: "sweep", speed: BOSS_SPEED },
+  { below: 0.66, pattern: "weave", speed: BOSS_SPEED * 1.5 },
+  { below: 0.33, pattern: "charge", speed: BOSS_SPEED * 2.5 },
+]
+
+// Charging bosses dive at the player for the last part of every cycle
+const CHARGE_CYCLE = 5000
+const CHARGE_DIVE = 1500
+
+const TAU = Math.PI * 2
+
+// Position the current pattern wants the boss at, reused to avoid allocating every step
+const target = { x: 0, y: 0 }
+
+// Where each pattern wants the boss's top-left corner right now
+const PATTERNS: Record<BossPattern, (boss: Boss, world: World) => void> = {
+  // Slow side to side along the top
+  sweep: (boss, world) => {
+    const range = (world.width - BOSS_WIDTH) / 2
+    target.x = range + Math.sin((boss.time / 6000) * TAU) * range
+    target.y = BOSS_HOVER_Y
+  },
+  // Faster, bobbing up and down
+  weave: (boss, world) => {
+    const range = (world.width - BOSS_WIDTH) / 2
+    target.x = range + Math.sin((boss.time / 3500) * TAU) * range
+    target.y = BOSS_HOVER_Y + (1 - Math.cos((boss.time / 1750) * TAU)) * 40
+  },
+  // Lines up above the player, then dives straight down at them
+  charge: (boss, world) => {
+    if (boss.time % CHARGE_CYCLE < CHARGE_CYCLE - CHARGE_DIVE) {
+      target.x = world.player.x + PLAYER_SIZE / 2 - BOSS_WIDTH / 2
+      target.y = BOSS_HOVER_Y
+    } else {
+      target.x = boss.x
+      target.y = world.player.y
+    }
+  },
+}
+
+// Announce a boss; regular waves stop while the warning runs
+export function startBossWarning(world: World) {
+  world.bossWarning = BOSS_WARNING_DURATION
+  world.events.push({ type: "bossWarning", tick: world.tick, duration: BOSS_WARNING_DURATION })
+}
+
+function spawnBoss(world: World) {
+  const hp = world.difficulty.bossHp
+  world.boss = {
+    id: world.nextId++,
+    x: (world.width - BOSS_WIDTH) / 2,
+    y: -BOSS_HEIGHT, // Flies in from above
+    hp,
+    maxHp: hp,
+    phase: 0,
+    time: 0,
+    hitFlash: 0,
+  }
+  world.events.push({ type: "bossSpawned", tick: world.tick, bossId: world.boss.id, hp })
+}
+
+// Count down the warning, then move the boss along its current phase's pattern
+export function updateBoss(world: World, dt: number) {
+  if (world.bossWarning > 0) {
+    world.bossWarning = Math.max(0, world.bossWarning - dt)
+    if (world.bossWarning === 0) spawnBoss(world)
+    return
+  }
+
+  const boss = world.boss
+  if (!boss) return
+
+  boss.time += dt
+  boss.hitFlash = Math.max(0, boss.hitFlash - dt)
+
+  // Head for the pattern's position at limited speed, so phase changes don't teleport the boss
+  const phase = BOSS_PHASES[boss.phase]
+  PATTERNS[phase.pattern](boss, world)
+  const dx = target.x - boss.x
+  const dy = target.y - boss.y
+  const distance = Math.hypot(dx, dy)
+  const reach = (phase.speed * dt) / 1000
+
+  if (distance <= reach) {
+    boss.x = target.x
+    boss.y = target.y
+  } else {
+    boss.x += (dx / distance) * reach
+    boss.y += (dy / distance) * reach
+  }
+}
+
+// A bullet, beam or bomb hit the boss: advance its phase as HP crosses thresholds and pay out the reward when it falls
+export function damageBoss(world: World, boss: Boss, damage = 1) {
+  const dealt = Math.min(damage, boss.hp)
+  boss.hp -= dealt
+  boss.hitFlash = HIT_FLASH_DURATION
+  addScore(world, dealt)
+  world.events.push({ type: "bossHit", tick: world.tick, bossId: boss.id, hp: boss.hp })
+
+  if (boss.hp <= 0) {
+    addScore(world, BOSS_REWARD)
+    world.boss = null
+    world.nextBossSecond = Math.floor(world.time / 1000) + world.difficulty.bossInterval
+    world.events.push({
+      type: "bossDefeated",
+      tick: world.tick,
+      bossId: boss.id,
+      x: boss.x,
+      y: boss.y,
+      reward: BOSS_REWARD,
+    })
+    return
+  }
+
+  while (boss.phase + 1 < BOSS_PHASES.length && boss.hp <= boss.maxHp * BOSS_PHASES[boss.phase + 1].below) {
+    boss.phase++
+    world.events.push({ type: "bossPhaseChanged", tick: world.tick, bossId: boss.id, phase: boss.phase })
+  }
+}
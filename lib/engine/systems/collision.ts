@@ -0,0 +1,238 @@
+import {
+  BOSS_SHAPE,
+  BULLET_SHAPE,
+  DODGE_BONUS,
+  DODGE_RADIUS,
+  ENEMY_BULLET_SHAPE,
+  ENEMY_BULLET_SIZE,
+  HIT_FLASH_DURATION,
+  INVULNERABILITY_DURATION,
+  KNOCKBACK_DISTANCE,
+  MIN_ARMOR_ANGLE,
+  PLAYER_SHAPE,
+  PLAYER_SIZE,
+  POWER_UP_SHAPE,
+} from "../constants"
+import { release, removeWhere } from "../pool"
+import { getShapeBounds, shapesOverlap, type Shape } from "../shapes"
+import { createSpatialGrid } from "../spatial-grid"
+import type { Block, DeathCause, PowerUp, World } from "../types"
+import { damageBlock, getBlockShape, isDestroyed, removeDestroyedBlocks } from "./blocks"
+import { damageBoss } from "./boss"
+import { activatePowerUp, addScore, isPowerUpActive } from "./power-ups"
+
+// Broadphase grids, rebuilt from the world every step
+const blockGrid = createSpatialGrid<Block>()
+const powerUpGrid = createSpatialGrid<PowerUp>()
+
+// Broadphase boxes around each collision shape
+const POWER_UP_BOUNDS = getShapeBounds(POWER_UP_SHAPE)
+const BULLET_BOUNDS = getShapeBounds(BULLET_SHAPE)
+const PLAYER_BOUNDS = getShapeBounds(PLAYER_SHAPE)
+
+// Shape currently tested against the grids, and the blocks it should pass through. Shared with the module-level
+// callbacks below so grid queries don't allocate a closure per entity.
+const NO_IDS: readonly number[] = []
+const probe = { shape: BULLET_SHAPE, x: 0, y: 0, angle: 0, ignoreIds: NO_IDS }
+const collectedPowerUps: PowerUp[] = []
+
+const blockTouchesProbe = (block: Block) =>
+  !isDestroyed(block) &&
+  !probe.ignoreIds.includes(block.id) &&
+  shapesOverlap(probe.shape, probe.x, probe.y, probe.angle, getBlockShape(block), block.x, block.y, 0)
+
+const collectIfTouchingProbe = (powerUp: PowerUp) => {
+  if (shapesOverlap(probe.shape, probe.x, probe.y, probe.angle, POWER_UP_SHAPE, powerUp.x, powerUp.y, 0)) {
+    collectedPowerUps.push(powerUp)
+  }
+}
+
+const isCollected = (powerUp: PowerUp) => collectedPowerUps.includes(powerUp)
+
+let rammedBlock: Block | null = null
+const isRammed = (block: Block) => block === rammedBlock
+
+function setProbe(shape: Shape, x: number, y: number, angle: number, ignoreIds = NO_IDS) {
+  probe.shape = shape
+  probe.x = x
+  probe.y = y
+  probe.angle = angle
+  probe.ignoreIds = ignoreIds
+}
+
+// Index blocks and power-ups for this step's collision checks
+export function buildBroadphase(world: World) {
+  blockGrid.clear()
+  for (const block of world.blocks) {
+    // Block shapes are boxes filling the block
+    blockGrid.insert(block, block.x, block.y, block.size, block.size)
+  }
+
+  powerUpGrid.clear()
+  for (const powerUp of world.powerUps) {
+    powerUpGrid.insert(
+      powerUp,
+      powerUp.x + POWER_UP_BOUNDS.x,
+      powerUp.y + POWER_UP_BOUNDS.y,
+      POWER_UP_BOUNDS.width,
+      POWER_UP_BOUNDS.height,
+    )
+  }
+}
+
+// Bullets damage the first block they touch, or the boss. Piercing bullets carry on through blocks.
+export function checkBulletCollisions(world: World) {
+  if (world.bullets.length === 0 || (world.blocks.length === 0 && !world.boss)) return
+
+  let hitDetected = false
+  let kept = 0
+
+  // Compact surviving bullets in place while recycling the ones that hit
+  for (let i = 0; i < world.bullets.length; i++) {
+    const bullet = world.bullets[i]
+    setProbe(BULLET_SHAPE, bullet.x, bullet.y, bullet.angle, bullet.hitIds)
+    const block = blockGrid.find(
+      bullet.x + BULLET_BOUNDS.x,
+      bullet.y + BULLET_BOUNDS.y,
+      BULLET_BOUNDS.width,
+      BULLET_BOUNDS.height,
+      blockTouchesProbe,
+    )
+
+    if (!block) {
+      const boss = world.boss
+      if (boss && shapesOverlap(BULLET_SHAPE, bullet.x, bullet.y, bullet.angle, BOSS_SHAPE, boss.x, boss.y, 0)) {
+        damageBoss(world, boss)
+        release(world, "bullets", bullet)
+      } else {
+        world.bullets[kept++] = bullet
+      }
+      continue
+    }
+
+    hitDetected = true
+    block.hitFlash = HIT_FLASH_DURATION
+    if (bullet.piercing) {
+      bullet.hitIds.push(block.id)
+      world.bullets[kept++] = bullet
+    } else {
+      release(world, "bullets", bullet)
+    }
+
+    // Armour only gives way to shots coming in at an angle, or ones that pierce it
+    if (block.kind === "armored" && Math.abs(bullet.angle) < MIN_ARMOR_ANGLE && !bullet.piercing) {
+      world.events.push({ type: "shotDeflected", tick: world.tick, blockId: block.id })
+      continue
+    }
+
+    damageBlock(world, block)
+  }
+  world.bullets.length = kept
+
+  // Remove breakable blocks with 0 HP, splitting and detonating them
+  if (hitDetected) {
+    removeDestroyedBlocks(world)
+  }
+}
+
+// Lose a life, ending the run on the last one. An active shield takes the hit instead and breaks.
+// Returns whether the player survived.
+function hitPlayer(world: World, cause: DeathCause): boolean {
+  if (isPowerUpActive(world, "shield")) {
+    world.powerUpTimers.shield = 0
+    world.invulnerableTime = INVULNERABILITY_DURATION
+    world.events.push({ type: "shieldBlocked", tick: world.tick, cause })
+    return true
+  }
+
+  world.lives -= 1
+
+  if (world.lives <= 0) {
+    world.status = "gameOver"
+    world.events.push({ type: "playerDied", tick: world.tick, score: world.score, cause })
+    return false
+  }
+
+  world.invulnerableTime = INVULNERABILITY_DURATION
+  world.events.push({ type: "playerHit", tick: world.tick, cause, livesLeft: world.lives })
+  return true
+}
+
+// A block rammed the player: clear it out of the way if they survive
+function ramBlock(world: World, block: Block) {
+  if (!hitPlayer(world, "blockCollision")) return
+
+  if (block.isBreakable) {
+    // Destroyed without scoring, it was never shot down
+    rammedBlock = block
+    removeWhere(world, "blocks", isRammed)
+    rammedBlock = null
+  } else {
+    block.y = Math.min(block.y, world.player.y - block.size) - KNOCKBACK_DISTANCE
+    block.hitFlash = HIT_FLASH_DURATION
+  }
+}
+
+// Blocks and the boss cost a life on contact unless the player is still invulnerable, power-ups are collected
+export function checkPlayerCollisions(world: World) {
+  const player = world.player
+  const x = player.x + PLAYER_BOUNDS.x
+  const y = player.y + PLAYER_BOUNDS.y
+  setProbe(PLAYER_SHAPE, player.x, player.y, 0)
+
+  if (world.invulnerableTime <= 0) {
+    const block = blockGrid.find(x, y, PLAYER_BOUNDS.width, PLAYER_BOUNDS.height, blockTouchesProbe)
+    const boss = world.boss
+    if (block) {
+      ramBlock(world, block)
+    } else if (boss && shapesOverlap(PLAYER_SHAPE, player.x, player.y, 0, BOSS_SHAPE, boss.x, boss.y, 0)) {
+      hitPlayer(world, "bossCollision")
+    }
+    if (world.status !== "playing") return
+  }
+
+  collectedPowerUps.length = 0
+  powerUpGrid.query(x, y, PLAYER_BOUNDS.width, PLAYER_BOUNDS.height, collectIfTouchingProbe)
+
+  if (collectedPowerUps.length > 0) {
+    for (const powerUp of collectedPowerUps) {
+      activatePowerUp(world, powerUp.type)
+      world.events.push({ type: "powerUpCollected", tick: world.tick, powerUpType: powerUp.type })
+    }
+    removeWhere(world, "powerUps", isCollected)
+  }
+}
+
+// Enemy bullets cost a life on contact. One that passes close by while the player can be hit pays the dodge bonus
+// once it gets clear.
+export function checkEnemyBulletCollisions(world: World) {
+  if (world.status !== "playing" || world.enemyBullets.length === 0) return
+
+  const player = world.player
+  const centerX = player.x + PLAYER_SIZE / 2
+  const centerY = player.y + PLAYER_SIZE / 2
+  let kept = 0
+
+  for (let i = 0; i < world.enemyBullets.length; i++) {
+    const bullet = world.enemyBullets[i]
+    const distance = Math.hypot(bullet.x + ENEMY_BULLET_SIZE / 2 - centerX, bullet.y + ENEMY_BULLET_SIZE / 2 - centerY)
+
+    if (distance <= DODGE_RADIUS) {
+      if (world.status === "playing" && world.invulnerableTime <= 0) {
+        if (shapesOverlap(PLAYER_SHAPE, player.x, player.y, 0, ENEMY_BULLET_SHAPE, bullet.x, bullet.y, 0)) {
+          hitPlayer(world, "enemyFire")
+          release(world, "enemyBullets", bullet)
+          continue
+        }
+        bullet.nearMiss = true
+      }
+    } else if (bullet.nearMiss && world.status === "playing") {
+      bullet.nearMiss = false
+      addScore(world, DODGE_BONUS)
+      world.events.push({ type: "shotDodged", tick: world.tick, bonus: DODGE_BONUS })
+    }
+
+    world.enemyBullets[kept++] = bullet
+  }
+  world.enemyBullets.length = kept
+}
@@ -0,0 +1,40 @@
+import { difficultyAt } from "../difficulty-profiles"
+import type { Difficulty, World } from "../types"
+import { startBossWarning } from "./boss"
+import { spawnPowerUp } from "./spawn"
+
+// Difficulty evaluated for the new second, compared against the current one before it is applied
+const next = {} as Difficulty
+
+function sameDifficulty(a: Difficulty, b: Difficulty) {
+  return (Object.keys(a) as (keyof Difficulty)[]).every((key) => a[key] === b[key])
+}
+
+// Re-evaluate the profile's curves and spawn power-ups and bosses for a newly elapsed second of play
+function onSecondElapsed(world: World, second: number) {
+  difficultyAt(world.profile, second, next)
+  if (!sameDifficulty(world.difficulty, next)) {
+    Object.assign(world.difficulty, next)
+    world.events.push({ type: "difficultyIncreased", tick: world.tick, difficulty: { ...next } })
+  }
+
+  if (second >= world.nextPowerUpSecond) {
+    spawnPowerUp(world)
+    world.nextPowerUpSecond = second + world.difficulty.powerUpInterval
+  }
+
+  if (!world.boss && world.bossWarning === 0 && second >= world.nextBossSecond) {
+    startBossWarning(world)
+  }
+}
+
+// Advance the game clock, running the per-second progression as seconds pass
+export function updateClock(world: World, dt: number) {
+  const previousSecond = Math.floor(world.time / 1000)
+  world.time += dt
+  const currentSecond = Math.floor(world.time / 1000)
+
+  for (let second = previousSecond + 1; second <= currentSecond; second++) {
+    onSecondElapsed(world, second)
+  }
+}
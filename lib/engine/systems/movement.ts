@@ -0,0 +1,149 @@
+import {
+  BOSS_HEIGHT,
+  BOSS_WIDTH,
+  BULLET_HEIGHT,
+  BULLET_SPEED,
+  BULLET_WIDTH,
+  ENEMY_BULLET_SIZE,
+  HOMING_TURN_RATE,
+  MAGNET_SPEED,
+  OFFSCREEN_MARGIN,
+  PLAYER_SIZE,
+  PLAYER_SPEED,
+  POWER_UP_FALL_SPEED,
+  POWER_UP_SIZE,
+} from "../constants"
+import { removeWhere } from "../pool"
+import type { Bullet, PlayerInput, Vector, World } from "../types"
+import { isDestroyed, updateBlock } from "./blocks"
+import { isPowerUpActive } from "./power-ups"
+
+// Homing bullets can be turned out the sides as well as the top
+const isBulletOffScreen = (bullet: Vector, world: World) =>
+  bullet.y <= -20 || bullet.x <= -20 || bullet.x >= world.width + 20
+const isBelowScreen = (entity: Vector, world: World) => entity.y >= world.height + OFFSCREEN_MARGIN
+const isOffScreen = (entity: Vector, world: World) =>
+  entity.x <= -ENEMY_BULLET_SIZE - OFFSCREEN_MARGIN ||
+  entity.x >= world.width + OFFSCREEN_MARGIN ||
+  entity.y <= -ENEMY_BULLET_SIZE - OFFSCREEN_MARGIN ||
+  isBelowScreen(entity, world)
+
+// Move the player from keyboard or drag input and clamp to the screen
+export function movePlayer(world: World, input: PlayerInput, dt: number) {
+  const player = world.player
+  const distance = (PLAYER_SPEED * dt) / 1000
+  let x = player.x
+  let y = player.y
+
+  if (input.drag) {
+    // Dragging places the player directly under the pointer
+    x = input.drag.x
+    y = input.drag.y
+  } else {
+    x += input.moveX * distance
+    y += input.moveY * distance
+  }
+
+  player.x = Math.max(0, Math.min(world.width - PLAYER_SIZE, x))
+  player.y = Math.max(0, Math.min(world.height - PLAYER_SIZE, y))
+}
+
+// Turn a homing bullet towards the closest block or boss still ahead of it
+function steerBullet(world: World, bullet: Bullet, dt: number) {
+  const x = bullet.x + BULLET_WIDTH / 2
+  const y = bullet.y + BULLET_HEIGHT / 2
+  let targetX = 0
+  let targetY = 0
+  let closest = Infinity
+
+  for (const block of world.blocks) {
+    const blockX = block.x + block.size / 2
+    const blockY = block.y + block.size / 2
+    const distance = Math.hypot(blockX - x, blockY - y)
+    if (block.isBreakable && !isDestroyed(block) && blockY < y && distance < closest) {
+      closest = distance
+      targetX = blockX
+      targetY = blockY
+    }
+  }
+
+  const boss = world.boss
+  if (boss) {
+    const bossX = boss.x + BOSS_WIDTH / 2
+    const bossY = boss.y + BOSS_HEIGHT / 2
+    if (bossY < y && Math.hypot(bossX - x, bossY - y) < closest) {
+      closest = 0
+      targetX = bossX
+      targetY = bossY
+    }
+  }
+  if (closest === Infinity) return
+
+  // Shortest way round to the target's bearing, limited by the turn rate
+  const bearing = (Math.atan2(targetX - x, y - targetY) * 180) / Math.PI
+  const turn = ((bearing - bullet.angle + 540) % 360) - 180
+  const maxTurn = (HOMING_TURN_RATE * dt) / 1000
+  bullet.angle += Math.max(-maxTurn, Math.min(maxTurn, turn))
+}
+
+// Move bullets along their angle, recycling those that leave the screen
+export function moveBullets(world: World, dt: number) {
+  const distance = (BULLET_SPEED * dt) / 1000
+
+  for (const bullet of world.bullets) {
+    if (bullet.homing) steerBullet(world, bullet, dt)
+
+    const radians = (bullet.angle * Math.PI) / 180
+    bullet.x += Math.sin(radians) * distance
+    bullet.y -= Math.cos(radians) * distance
+  }
+
+  removeWhere(world, "bullets", isBulletOffScreen)
+}
+
+// Move enemy bullets in a straight line, recycling those that leave the screen in any direction
+export function moveEnemyBullets(world: World, dt: number) {
+  // Slow-motion slows enemy fire as well
+  const scale = isPowerUpActive(world, "slowMotion") ? dt / 2000 : dt / 1000
+
+  for (const bullet of world.enemyBullets) {
+    bullet.x += bullet.vx * scale
+    bullet.y += bullet.vy * scale
+  }
+
+  removeWhere(world, "enemyBullets", isOffScreen)
+}
+
+// Move falling blocks and power-ups, recycling those below the screen
+export function moveObjects(world: World, dt: number) {
+  for (const block of world.blocks) {
+    updateBlock(block, world, dt)
+    block.hitFlash = Math.max(0, block.hitFlash - dt)
+  }
+  removeWhere(world, "blocks", isBelowScreen)
+
+  // The magnet pulls power-ups straight at the ship instead of letting them fall
+  const magnet = isPowerUpActive(world, "magnet")
+  const playerX = world.player.x + PLAYER_SIZE / 2 - POWER_UP_SIZE / 2
+  const playerY = world.player.y + PLAYER_SIZE / 2 - POWER_UP_SIZE / 2
+  const reach = (MAGNET_SPEED * dt) / 1000
+
+  for (const powerUp of world.powerUps) {
+    if (!magnet) {
+      powerUp.y += (POWER_UP_FALL_SPEED * dt) / 1000
+      continue
+    }
+
+    const dx = playerX - powerUp.x
+    const dy = playerY - powerUp.y
+    const distance = Math.hypot(dx, dy)
+    if (distance <= reach) {
+      powerUp.x = playerX
+      powerUp.y = playerY
+    } else {
+      powerUp.x += (dx / distance) * reach
+      powerUp.y += (dy / distance) * reach
+    }
+  }
+  removeWhere(world, "powerUps", isBelowScreen)
+}
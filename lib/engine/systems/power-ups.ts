@@ -0,0 +1,39 @@
+import { MAX_BOMBS, POWER_UP_DURATION, POWER_UP_TYPES, SCORE_MULTIPLIER } from "../constants"
+import type { PowerUpType, World } from "../types"
+
+// What each power-up does while active, and where:
+// - fireSpeed, multiDirectional, piercing, homing and laser change the player's weapon (weapons.ts, movement.ts)
+// - slowMotion halves the speed of blocks (blocks.ts) and enemy fire (movement.ts)
+// - shield takes every hit instead of the player (collision.ts)
+// - magnet pulls falling power-ups towards the ship (movement.ts)
+// - scoreMultiplier multiplies every point scored (addScore below)
+// - bomb is stocked rather than timed, and clears the screen when used (weapons.ts)
+export function isPowerUpActive(world: World, type: PowerUpType): boolean {
+  return world.powerUpTimers[type] > 0
+}
+
+// Activate a power-up, restarting its timer if it is already active
+export function activatePowerUp(world: World, type: PowerUpType) {
+  if (type === "bomb") {
+    world.bombs = Math.min(MAX_BOMBS, world.bombs + 1)
+    return
+  }
+  world.powerUpTimers[type] = POWER_UP_DURATION[type]
+}
+
+// Award points, multiplied while the score multiplier is active
+export function addScore(world: World, points: number) {
+  world.score += isPowerUpActive(world, "scoreMultiplier") ? points * SCORE_MULTIPLIER : points
+}
+
+// Count down active power-ups
+export function updatePowerUpTimers(world: World, dt: number) {
+  for (const type of POWER_UP_TYPES) {
+    if (world.powerUpTimers[type] === 0) continue
+
+    world.powerUpTimers[type] = Math.max(0, world.powerUpTimers[type] - dt)
+    if (world.powerUpTimers[type] === 0) {
+      world.events.push({ type: "powerUpExpired", tick: world.tick, powerUpType: type })
+    }
+  }
+}
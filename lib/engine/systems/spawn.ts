@@ -0,0 +1,64 @@
+import { BLOCK_SIZE, POWER_UP_SIZE, POWER_UP_TYPES, UNBREAKABLE_HP } from "../constants"
+import { acquire } from "../pool"
+import { random, randomInt } from "../random"
+import type { BlockKind, World } from "../types"
+import { SPECIAL_BLOCK_KINDS, spawnBlock } from "./blocks"
+import { armTurret, TURRET_PATTERNS } from "./turrets"
+
+// Spawn a wave of blocks above the screen
+export function spawnWave(world: World) {
+  for (let i = 0; i < world.difficulty.blocksPerWave; i++) {
+    // Random horizontal position within screen bounds
+    const x = random(world) * (world.width - BLOCK_SIZE)
+
+    // Random HP within the current difficulty's range
+    const { minBlockHp, maxBlockHp } = world.difficulty
+    const hp = randomInt(world, maxBlockHp - minBlockHp + 1) + minBlockHp
+
+    // Small chance for unbreakable block
+    const isBreakable = random(world) > world.difficulty.unbreakableChance
+
+    // Some breakable blocks are turrets, others get a special behaviour
+    let kind: BlockKind = "normal"
+    if (isBreakable && random(world) < world.difficulty.turretChance) {
+      kind = "turret"
+    } else if (isBreakable && random(world) < world.difficulty.specialBlockChance) {
+      kind = SPECIAL_BLOCK_KINDS[randomInt(world, SPECIAL_BLOCK_KINDS.length)]
+    }
+
+    // Start above the screen with spacing between blocks
+    const block = spawnBlock(world, kind, x, -50 - i * 60, BLOCK_SIZE, isBreakable ? hp : UNBREAKABLE_HP, isBreakable)
+    if (kind === "turret") {
+      armTurret(block, TURRET_PATTERNS[randomInt(world, TURRET_PATTERNS.length)])
+    }
+  }
+
+  world.events.push({ type: "waveSpawned", tick: world.tick, size: world.difficulty.blocksPerWave })
+}
+
+// Spawn a random power-up above the screen
+export function spawnPowerUp(world: World) {
+  const x = random(world) * (world.width - POWER_UP_SIZE)
+  const type = POWER_UP_TYPES[randomInt(world, POWER_UP_TYPES.length)]
+
+  const powerUp = acquire(world, "powerUps")
+  powerUp.x = x
+  powerUp.y = -50
+  powerUp.type = type
+  world.powerUps.push(powerUp)
+  world.events.push({ type: "powerUpSpawned", tick: world.tick, powerUpId: powerUp.id, powerUpType: type })
+}
+
+// Spawn a new wave whenever the spawn timer runs out. Waves hold off while a boss is on its way or alive.
+export function updateSpawning(world: World, dt: number) {
+  if (world.boss || world.bossWarning > 0) {
+    world.blockSpawnTimer = 0
+    return
+  }
+
+  world.blockSpawnTimer += dt
+  if (world.blockSpawnTimer >= world.difficulty.blockSpawnRate) {
+    world.blockSpawnTimer = 0
+    spawnWave(world)
+  }
+}
@@ -0,0 +1,71 @@
+import { ENEMY_BULLET_SIZE, ENEMY_BULLET_SPEED, PLAYER_SIZE } from "../constants"
+import { acquire } from "../pool"
+import type { Block, TurretPattern, World } from "../types"
+
+export const TURRET_PATTERNS: TurretPattern[] = ["aimed", "spread", "spiral"]
+
+// ms between volleys, shots per volley and the angle between them (radians):
+// - aimed: single shots straight at the player
+// - spread: a fan centered on the player
+// - spiral: a three-armed burst that keeps turning
+export const TURRETS: Record<TurretPattern, { interval: number; count: number; gap: number }> = {
+  aimed: { interval: 1500, count: 1, gap: 0 },
+  spread: { interval: 2500, count: 5, gap: Math.PI / 12 },
+  spiral: { interval: 300, count: 3, gap: (Math.PI * 2) / 3 },
+}
+
+// How fast a spiral turret turns, in radians per second
+const SPIRAL_SPEED = 2
+
+// Give a freshly spawned turret block its pattern, holding fire for one interval
+export function armTurret(block: Block, pattern: TurretPattern) {
+  block.pattern = pattern
+  block.fireTimer = TURRETS[pattern].interval
+}
+
+// Direction the middle of the turret's next volley goes in, radians from the positive x axis
+export function getTurretAngle(block: Block, world: World): number {
+  if (block.pattern === "spiral") return (block.age / 1000) * SPIRAL_SPEED
+
+  const player = world.player
+  return Math.atan2(
+    player.y + PLAYER_SIZE / 2 - (block.y + block.size / 2),
+    player.x + PLAYER_SIZE / 2 - (block.x + block.size / 2),
+  )
+}
+
+function fireVolley(world: World, block: Block) {
+  const { count, gap } = TURRETS[block.pattern]
+  const angle = getTurretAngle(block, world)
+  const x = block.x + block.size / 2 - ENEMY_BULLET_SIZE / 2
+  const y = block.y + block.size / 2 - ENEMY_BULLET_SIZE / 2
+
+  for (let i = 0; i < count; i++) {
+    const shotAngle = angle + (i - (count - 1) / 2) * gap
+    const bullet = acquire(world, "enemyBullets")
+    bullet.x = x
+    bullet.y = y
+    bullet.vx = Math.cos(shotAngle) * ENEMY_BULLET_SPEED
+    bullet.vy = Math.sin(shotAngle) * ENEMY_BULLET_SPEED
+    bullet.nearMiss = false
+    world.enemyBullets.push(bullet)
+  }
+
+  world.events.push({ type: "turretFired", tick: world.tick, blockId: block.id, pattern: block.pattern, count })
+}
+
+// Fire each turret block on its own timer. Turrets only shoot once fully on screen and still above the player,
+// so nothing is fired from off screen or point blank.
+export function updateTurrets(world: World, dt: number) {
+  for (const block of world.blocks) {
+    if (block.kind !== "turret") continue
+
+    block.fireTimer -= dt
+    if (block.fireTimer > 0) continue
+    block.fireTimer += TURRETS[block.pattern].interval
+
+    if (block.y >= 0 && block.y + block.size < world.player.y) {
+      fireVolley(world, block)
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  BOMB_BOSS_DAMAGE,
+  BOSS_HEIGHT,
+  BOSS_WIDTH,
+  BULLET_WIDTH,
+  FAST_FIRE_RATE,
+  FIRE_RATE,
+  LASER_INTERVAL,
+  LASER_WIDTH,
+  MULTI_SHOT_ANGLE,
+  MULTI_SHOT_OFFSET,
+  PLAYER_SIZE,
+} from "../constants"
+import { acquire, removeWhere } from "../pool"
+import type { Block, Bullet, PlayerInput, World } from "../types"
+import { damageBlock, removeDestroyedBlocks } from "./blocks"
+import { damageBoss } from "./boss"
+import { addScore, isPowerUpActive } from "./power-ups"
+
+// Reuse a bullet from the pool if available
+function createBullet(world: World, x: number, y: number, angle = 0): Bullet {
+  const bullet = acquire(world, "bullets")
+  bullet.x = x
+  bullet.y = y
+  bullet.angle = angle
+  bullet.piercing = isPowerUpActive(world, "piercing")
+  bullet.homing = isPowerUpActive(world, "homing")
+  bullet.hitIds.length = 0
+  world.events.push({ type: "bulletFired", tick: world.tick, bulletId: bullet.id, angle })
+  return bullet
+}
+
+// Is something spanning [x, x + width] with its bottom edge at `bottom` above the ship and across the beam?
+function inLaserPath(world: World, x: number, width: number, bottom: number) {
+  const left = world.player.x + PLAYER_SIZE / 2 - LASER_WIDTH / 2
+  return bottom <= world.player.y && x < left + LASER_WIDTH && x + width > left
+}
+
+// Beam straight up from the nose to the first thing in its way, which takes a point of damage every LASER_INTERVAL.
+// Armour doesn't stop it, unbreakable blocks do.
+function fireLaser(world: World) {
+  let target: Block | null = null
+  let targetBottom = 0
+  for (const block of world.blocks) {
+    const bottom = block.y + block.size
+    if (bottom > targetBottom && inLaserPath(world, block.x, block.size, bottom)) {
+      target = block
+      targetBottom = bottom
+    }
+  }
+
+  const boss = world.boss
+  const bossBottom = boss ? boss.y + BOSS_HEIGHT : 0
+  const hitsBoss = boss && bossBottom > targetBottom && inLaserPath(world, boss.x, BOSS_WIDTH, bossBottom)
+  world.laserY = hitsBoss ? bossBottom : targetBottom
+
+  if (world.fireCooldown > 0) return
+  world.fireCooldown = LASER_INTERVAL
+
+  if (hitsBoss) {
+    damageBoss(world, boss)
+  } else if (target) {
+    damageBlock(world, target)
+    removeDestroyedBlocks(world)
+  }
+}
+
+// Fire from the top-center of the fighter plane while the fire action is held
+export function updateFiring(world: World, input: PlayerInput, dt: number) {
+  world.fireCooldown = Math.max(0, world.fireCooldown - dt)
+  world.laserY = null
+  if (!input.fire) return
+
+  // The laser replaces bullets while it lasts
+  if (isPowerUpActive(world, "laser")) {
+    fireLaser(world)
+    return
+  }
+  if (world.fireCooldown > 0) return
+
+  // Check fire rate based on power-up
+  world.fireCooldown = isPowerUpActive(world, "fireSpeed") ? FAST_FIRE_RATE : FIRE_RATE
+
+  const x = world.player.x + PLAYER_SIZE / 2 - BULLET_WIDTH / 2
+  const y = world.player.y - 8
+
+  if (isPowerUpActive(world, "multiDirectional")) {
+    // Fire 3 bullets in different directions
+    world.bullets.push(
+      createBullet(world, x, y, 0),
+      createBullet(world, x - MULTI_SHOT_OFFSET, y, -MULTI_SHOT_ANGLE),
+      createBullet(world, x + MULTI_SHOT_OFFSET, y, MULTI_SHOT_ANGLE),
+    )
+  } else {
+    world.bullets.push(createBullet(world, x, y, 0))
+  }
+}
+
+let blocksCleared = 0
+
+// Bombed blocks score their remaining HP, as if shot down. Ones still above the screen are spared.
+const clearIfOnScreen = (block: Block, world: World) => {
+  if (block.y + block.size <= 0) return false
+
+  blocksCleared++
+  if (block.isBreakable) {
+    addScore(world, block.hp)
+    world.events.push({ type: "blockDestroyed", tick: world.tick, blockId: block.id, x: block.x, y: block.y })
+  }
+  return true
+}
+
+const always = () => true
+
+// Pressing the bomb action spends a bomb to clear every block and enemy bullet on screen and hit the boss hard.
+// Holding it down only drops one.
+export function updateBomb(world: World, input: PlayerInput) {
+  const pressed = input.bomb && !world.bombHeld
+  world.bombHeld = input.bomb
+  if (!pressed || world.bombs === 0) return
+
+  world.bombs--
+  blocksCleared = 0
+  removeWhere(world, "blocks", clearIfOnScreen)
+  removeWhere(world, "enemyBullets", always)
+  if (world.boss) damageBoss(world, world.boss, BOMB_BOSS_DAMAGE)
+
+  world.events.push({ type: "bombDetonated", tick: world.tick, blocksCleared, bombsLeft: world.bombs })
+}
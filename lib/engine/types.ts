@@ -0,0 +1,209 @@
+// Power-up types, see systems/power-ups.ts for what each one does
+export type PowerUpType =
+  | "fireSpeed"
+  | "multiDirectional"
+  | "slowMotion"
+  | "shield"
+  | "piercing"
+  | "homing"
+  | "bomb"
+  | "magnet"
+  | "scoreMultiplier"
+  | "laser"
+
+// Simulation status - the UI layers its own states (title screen, menus) on top
+export type WorldStatus = "playing" | "gameOver"
+
+export interface Vector {
+  x: number
+  y: number
+}
+
+// Define interfaces for game objects
+export interface Bullet {
+  id: number
+  x: number
+  y: number
+  angle: number // Degrees from vertical, used for multi-directional fire and turned by homing
+  piercing: boolean // Passes through blocks, damaging each one once
+  homing: boolean // Steers towards the nearest target
+  hitIds: number[] // Blocks a piercing bullet has already damaged, so it damages each one once
+}
+
+// Shot fired by a turret block, moving in a straight line
+export interface EnemyBullet {
+  id: number
+  x: number
+  y: number
+  vx: number // World units per second
+  vy: number
+  nearMiss: boolean // Passed close to the player, pays the dodge bonus once it gets clear
+}
+
+// How a block moves and reacts to damage, see systems/blocks.ts
+export type BlockKind =
+  "normal" | "zigzag" | "meteor" | "splitter" | "explosive" | "regenerating" | "armored" | "turret"
+
+// How a turret block fires, see systems/turrets.ts
+export type TurretPattern = "aimed" | "spread" | "spiral"
+
+export interface Block {
+  id: number
+  kind: BlockKind
+  x: number
+  y: number
+  size: number // BLOCK_SIZE, or SMALL_BLOCK_SIZE for the halves of a splitter
+  hp: number
+  maxHp: number // HP it spawned with, regenerating blocks heal back up to it
+  hitFlash: number // ms left of the white flash shown after a hit
+  isBreakable: boolean
+  age: number // ms since it spawned, drives zig-zags and meteor acceleration
+  originX: number // Center line a zig-zag block weaves around
+  regenTimer: number // ms until a regenerating block heals
+  pattern: TurretPattern // Turret blocks only
+  fireTimer: number // ms until a turret block fires
+}
+
+// Large multi-cell enemy that shows up every so often, pausing regular waves while it is alive
+export interface Boss {
+  id: number
+  x: number
+  y: number
+  hp: number
+  maxHp: number
+  phase: number // Index into BOSS_PHASES, advancing as HP drops
+  time: number // ms since it spawned, drives its movement pattern
+  hitFlash: number
+}
+
+export interface PowerUp {
+  id: number
+  x: number
+  y: number
+  type: PowerUpType
+}
+
+// Difficulty in effect right now, evaluated from the profile as time passes
+export interface Difficulty {
+  blockSpawnRate: number // ms between block spawns
+  blockFallSpeed: number // world units per second
+  blocksPerWave: number // blocks spawned per wave
+  minBlockHp: number // Breakable block HP is drawn uniformly from min to max
+  maxBlockHp: number
+  unbreakableChance: number // 0-1 chance for each block to be unbreakable
+  powerUpInterval: number // seconds between power-up spawns
+  bossInterval: number // seconds from one boss's defeat (or the start) to the next warning
+  bossHp: number // HP of a boss spawning now
+  specialBlockChance: number // 0-1 chance for each breakable block to get a special behaviour
+  turretChance: number // 0-1 chance for each breakable block to be a turret that shoots at the player
+}
+
+// A value that starts at `start` and changes by `step` every `every` seconds, never going past `limit`
+export interface DifficultyCurve {
+  start: number
+  step: number
+  every: number
+  limit?: number
+}
+
+// How difficulty evolves over a run, one curve per tunable
+export interface DifficultyProfile {
+  id: string
+  name: string
+  blockSpawnRate: DifficultyCurve
+  blockFallSpeed: DifficultyCurve
+  blocksPerWave: DifficultyCurve
+  blockHp: { min: DifficultyCurve; max: DifficultyCurve }
+  unbreakableChance: DifficultyCurve
+  powerUpInterval: DifficultyCurve
+  bossInterval: DifficultyCurve
+  bossHp: DifficultyCurve
+  specialBlockChance: DifficultyCurve
+  turretChance: DifficultyCurve
+  lives: number // Hits the player can take, the last one ends the run
+}
+
+// Retired entities kept for reuse, so the per-step update doesn't allocate
+export interface EntityPools {
+  bullets: Bullet[]
+  blocks: Block[]
+  powerUps: PowerUp[]
+  enemyBullets: EnemyBullet[]
+}
+
+// Abstract player actions sampled once per step, whatever device they came from
+export interface PlayerInput {
+  moveX: number // -1 (left) to 1 (right), fractions for analog sticks
+  moveY: number // -1 (up) to 1 (down)
+  fire: boolean // Held to shoot
+  bomb: boolean
+  drag: Vector | null // Target player position while dragging, null otherwise
+}
+
+// What ended a run
+export type DeathCause = "blockCollision" | "bossCollision" | "enemyFire"
+
+// Payload of each event the engine emits, keyed by event type
+export interface GameEventMap {
+  bulletFired: { bulletId: number; angle: number }
+  blockHit: { blockId: number; hp: number }
+  blockDestroyed: { blockId: number; x: number; y: number }
+  blockExploded: { blockId: number; x: number; y: number; radius: number } // Center of the blast
+  shotDeflected: { blockId: number } // A straight shot bounced off armour
+  turretFired: { blockId: number; pattern: TurretPattern; count: number }
+  shotDodged: { bonus: number } // An enemy bullet grazed past the player
+  shieldBlocked: { cause: DeathCause } // The shield took a hit instead of the player
+  bombDetonated: { blocksCleared: number; bombsLeft: number }
+  powerUpSpawned: { powerUpId: number; powerUpType: PowerUpType }
+  powerUpCollected: { powerUpType: PowerUpType }
+  powerUpExpired: { powerUpType: PowerUpType }
+  playerHit: { cause: DeathCause; livesLeft: number } // Cost a life without ending the run
+  playerDied: { score: number; cause: DeathCause }
+  waveSpawned: { size: number }
+  difficultyIncreased: { difficulty: Difficulty }
+  bossWarning: { duration: number } // ms until the boss enters
+  bossSpawned: { bossId: number; hp: number }
+  bossHit: { bossId: number; hp: number }
+  bossPhaseChanged: { bossId: number; phase: number }
+  bossDefeated: { bossId: number; x: number; y: number; reward: number }
+}
+
+export type GameEventType = keyof GameEventMap
+
+// Side effects the front-end can react to (audio, HUD, haptics), tagged with the tick they happened on
+export type GameEvent<K extends GameEventType = GameEventType> = {
+  [T in K]: { type: T; tick: number } & GameEventMap[T]
+}[K]
+
+export interface World {
+  seed: number // Seed the run was started with
+  rngState: number // Current PRNG state, advanced by every random draw
+  width: number // Logical playfield size, see WORLD_WIDTH
+  height: number
+  status: WorldStatus
+  tick: number // Fixed steps simulated so far
+  time: number // ms of simulated play
+  score: number
+  player: Vector
+  lives: number
+  invulnerableTime: number // ms left of the invulnerability after a hit
+  bullets: Bullet[]
+  blocks: Block[]
+  powerUps: PowerUp[]
+  enemyBullets: EnemyBullet[]
+  boss: Boss | null
+  bossWarning: number // ms left of the warning before a boss enters, 0 when none is coming
+  nextBossSecond: number // Game second at which the next boss warning starts
+  pools: EntityPools
+  nextId: number
+  profile: DifficultyProfile
+  difficulty: Difficulty
+  nextPowerUpSecond: number // Game second at which the next power-up spawns
+  powerUpTimers: Record<PowerUpType, number> // ms left for each power-up, 0 when inactive
+  bombs: number // Bombs in stock, set off with the bomb action
+  bombHeld: boolean // Bomb action was held last step, so holding it only drops one
+  laserY: number | null // Top of the laser beam while it is firing, null otherwise
+  blockSpawnTimer: number // ms since the last wave
+  fireCooldown: number // ms until the next shot
+  events: GameEvent[] // Emitted this step, drained by the front-end
+}
@@ -0,0 +1,73 @@
+import { PLAYER_SIZE, PLAYER_START_OFFSET, WORLD_HEIGHT, WORLD_WIDTH } from "./constants"
+import { DEFAULT_DIFFICULTY, difficultyAt } from "./difficulty-profiles"
+import { randomSeed } from "./random"
+import type { DifficultyProfile, GameEvent, PlayerInput, World } from "./types"
+
+// Create a fresh world with the player at bottom center; the same seed and profile always yield the same spawns
+export function createWorld(seed = randomSeed(), profile: DifficultyProfile = DEFAULT_DIFFICULTY): World {
+  const width = WORLD_WIDTH
+  const height = WORLD_HEIGHT
+  const difficulty = difficultyAt(profile, 0)
+
+  return {
+    seed,
+    rngState: seed,
+    width,
+    height,
+    status: "playing",
+    tick: 0,
+    time: 0,
+    score: 0,
+    player: {
+      x: width / 2 - PLAYER_SIZE / 2,
+      y: height - PLAYER_START_OFFSET,
+    },
+    lives: profile.lives,
+    invulnerableTime: 0,
+    bullets: [],
+    blocks: [],
+    powerUps: [],
+    enemyBullets: [],
+    boss: null,
+    bossWarning: 0,
+    nextBossSecond: difficulty.bossInterval,
+    pools: {
+      bullets: [],
+      blocks: [],
+      powerUps: [],
+      enemyBullets: [],
+    },
+    nextId: 0,
+    profile,
+    difficulty,
+    nextPowerUpSecond: difficulty.powerUpInterval,
+    powerUpTimers: {
+      fireSpeed: 0,
+      multiDirectional: 0,
+      slowMotion: 0,
+      shield: 0,
+      piercing: 0,
+      homing: 0,
+      bomb: 0,
+      magnet: 0,
+      scoreMultiplier: 0,
+      laser: 0,
+    },
+    bombs: 0,
+    bombHeld: false,
+    laserY: null,
+    blockSpawnTimer: 0,
+    fireCooldown: 0,
+    events: [],
+  }
+}
+
+// Input with nothing pressed
+export function createPlayerInput(): PlayerInput {
+  return { moveX: 0, moveY: 0, fire: false, bomb: false, drag: null }
+}
+
+// Take all events emitted since the last call
+export function drainEvents(world: World): GameEvent[] {
+  return world.events.splice(0)
+}
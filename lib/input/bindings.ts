@@ -0,0 +1,116 @@
+import { readSavedJson } from "./saved-json"
+
+// Digital actions a key can be bound to. Movement is split per direction and combined into moveX/moveY.
+export type BindableAction = "left" | "right" | "up" | "down" | "fire" | "bomb" | "pause" | "mute" | "fullscreen"
+
+// Actions that trigger once per press instead of being held, and work outside of gameplay too
+export type CommandAction = Extract<BindableAction, "pause" | "mute" | "fullscreen">
+
+export const COMMAND_ACTIONS: readonly CommandAction[] = ["pause", "mute", "fullscreen"]
+
+export const isCommandAction = (action: BindableAction): action is CommandAction =>
+  (COMMAND_ACTIONS as readonly BindableAction[]).includes(action)
+
+// Physical keys (KeyboardEvent.code, so bindings follow key position rather than layout) for each action
+export type KeyBindings = Record<BindableAction, string[]>
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  left: ["ArrowLeft", "KeyA"],
+  right: ["ArrowRight", "KeyD"],
+  up: ["ArrowUp", "KeyW"],
+  down: ["ArrowDown", "KeyS"],
+  fire: ["Space"],
+  bomb: ["KeyB"],
+  pause: ["Escape", "KeyP"],
+  mute: ["KeyM"],
+  fullscreen: ["KeyF"],
+}
+
+// Display names, in the order the controls screen lists them
+export const ACTION_LABELS: Record<BindableAction, string> = {
+  up: "Move Up",
+  down: "Move Down",
+  left: "Move Left",
+  right: "Move Right",
+  fire: "Fire",
+  bomb: "Bomb",
+  pause: "Pause",
+  mute: "Mute",
+  fullscreen: "Fullscreen",
+}
+
+// Keys the game uses for itself, which can't be rebound
+export const RESERVED_KEYS: Record<string, string> = {
+  Backquote: "the debug overlay",
+  F3: "the debug overlay",
+}
+
+// Reverse lookup from key code to the action it triggers
+export function createKeyMap(bindings: KeyBindings): Map<string, BindableAction> {
+  const map = new Map<string, BindableAction>()
+  for (const action of Object.keys(bindings) as BindableAction[]) {
+    for (const code of bindings[action]) {
+      map.set(code, action)
+    }
+  }
+  return map
+}
+
+// Action other than `action` that already uses the key, if any
+export function findConflict(bindings: KeyBindings, action: BindableAction, code: string): BindableAction | null {
+  for (const other of Object.keys(bindings) as BindableAction[]) {
+    if (other !== action && bindings[other].includes(code)) return other
+  }
+  return null
+}
+
+// Bind a key to an action, taking it away from whichever action had it before
+export function bindKey(bindings: KeyBindings, action: BindableAction, code: string): KeyBindings {
+  const next = { ...bindings }
+  for (const other of Object.keys(next) as BindableAction[]) {
+    if (next[other].includes(code)) next[other] = next[other].filter((key) => key !== code)
+  }
+  next[action] = [...next[action], code]
+  return next
+}
+
+export function unbindKey(bindings: KeyBindings, action: BindableAction, code: string): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter((key) => key !== code) }
+}
+
+// Read saved bindings, falling back to the defaults for anything missing or malformed.
+// Keys that ended up bound twice keep only their first action.
+export function parseKeyBindings(json: string | null): KeyBindings {
+  const saved = readSavedJson<BindableAction>(json)
+  const bindings = { ...DEFAULT_KEY_BINDINGS }
+  const used = new Set<string>()
+
+  for (const action of Object.keys(bindings) as BindableAction[]) {
+    const codes = saved[action]
+    if (Array.isArray(codes) && codes.every((code) => typeof code === "string")) {
+      bindings[action] = codes.filter((code) => !(code in RESERVED_KEYS))
+    }
+    bindings[action] = bindings[action].filter((code) => !used.has(code))
+    bindings[action].forEach((code) => used.add(code))
+  }
+
+  return bindings
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Space: "Space",
+}
+
+// Short, readable name for a key code, e.g. "KeyA" -> "A"
+export function formatKey(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code]
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3)
+  if (/^Digit\d$/.test(code)) return code.slice(5)
+  if (code.startsWith("Numpad")) return `Num ${code.slice(6)}`
+  return code.replace(/(Left|Right)$/, " $1")
+}
@@ -0,0 +1,92 @@
+import { readSavedJson } from "./saved-json"
+
+// Standard mapping gamepads (https://w3c.github.io/gamepad/#remapping)
+
+export interface GamepadSettings {
+  deadZone: number // Stick deflection ignored around the center, 0 to MAX_DEAD_ZONE
+  sensitivity: number // Multiplier on stick deflection past the dead zone
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = { deadZone: 0.25, sensitivity: 1 }
+
+export const MAX_DEAD_ZONE = 0.5
+export const MIN_SENSITIVITY = 0.5
+export const MAX_SENSITIVITY = 2
+
+export const PAD_BUTTON = { a: 0, b: 1, x: 2, y: 3, start: 9, up: 12, down: 13, left: 14, right: 15 }
+
+// Combined state of every connected pad
+export interface GamepadState {
+  connected: boolean
+  moveX: number // -1 to 1, stick and D-pad together
+  moveY: number
+  fire: boolean
+  bomb: boolean
+  start: boolean
+  confirm: boolean // Activates the focused menu item
+  back: boolean
+}
+
+export const createGamepadState = (): GamepadState => ({
+  connected: false,
+  moveX: 0,
+  moveY: 0,
+  fire: false,
+  bomb: false,
+  start: false,
+  confirm: false,
+  back: false,
+})
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value))
+
+// Ignore small stick movements around the center, rescaling the rest to the full range
+export function applyDeadZone(value: number, { deadZone, sensitivity }: GamepadSettings): number {
+  if (Math.abs(value) <= deadZone) return 0
+  return clamp(((value - Math.sign(value) * deadZone) / (1 - deadZone)) * sensitivity)
+}
+
+// Read every connected pad into `out`
+export function readGamepads(settings: GamepadSettings, out: GamepadState): GamepadState {
+  const pads = navigator.getGamepads?.() ?? []
+  let moveX = 0
+  let moveY = 0
+  Object.assign(out, createGamepadState())
+
+  for (const gamepad of pads) {
+    if (!gamepad) continue
+    out.connected = true
+
+    const pressed = (index: number) => gamepad.buttons[index]?.pressed ?? false
+    moveX +=
+      applyDeadZone(gamepad.axes[0] ?? 0, settings) +
+      Number(pressed(PAD_BUTTON.right)) -
+      Number(pressed(PAD_BUTTON.left))
+    moveY +=
+      applyDeadZone(gamepad.axes[1] ?? 0, settings) + Number(pressed(PAD_BUTTON.down)) - Number(pressed(PAD_BUTTON.up))
+    // A fires, B and X are the special ability
+    out.fire ||= pressed(PAD_BUTTON.a)
+    out.bomb ||= pressed(PAD_BUTTON.b) || pressed(PAD_BUTTON.x)
+    out.start ||= pressed(PAD_BUTTON.start)
+    out.confirm ||= pressed(PAD_BUTTON.a)
+    out.back ||= pressed(PAD_BUTTON.b)
+  }
+
+  out.moveX = clamp(moveX)
+  out.moveY = clamp(moveY)
+  return out
+}
+
+// Read saved settings, falling back to the defaults for anything missing or out of range
+export function parseGamepadSettings(json: string | null): GamepadSettings {
+  const saved = readSavedJson<keyof GamepadSettings>(json)
+  const inRange = (value: unknown, min: number, max: number): value is number =>
+    typeof value === "number" && value >= min && value <= max
+
+  return {
+    deadZone: inRange(saved.deadZone, 0, MAX_DEAD_ZONE) ? saved.deadZone : DEFAULT_GAMEPAD_SETTINGS.deadZone,
+    sensitivity: inRange(saved.sensitivity, MIN_SENSITIVITY, MAX_SENSITIVITY)
+      ? saved.sensitivity
+      : DEFAULT_GAMEPAD_SETTINGS.sensitivity,
+  }
+}
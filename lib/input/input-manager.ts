@@ -0,0 +1,345 @@
+import type { Vector } from "@/lib/engine"
+import {
+  createKeyMap,
+  DEFAULT_KEY_BINDINGS,
+  isCommandAction,
+  type BindableAction,
+  type CommandAction,
+  type KeyBindings,
+} from "./bindings"
+import {
+  createGamepadState,
+  DEFAULT_GAMEPAD_SETTINGS,
+  readGamepads,
+  type GamepadSettings,
+  type GamepadState,
+} from "./gamepad"
+import { activateFocus, moveFocus, moveFocusHorizontally } from "./menu-navigation"
+import {
+  DEFAULT_TOUCH_SETTINGS,
+  fixedJoystickCenter,
+  followTarget,
+  inJoystickZone,
+  joystickDeflection,
+  type TouchScheme,
+  type TouchSettings,
+} from "./touch"
+
+// Pointer or finger steering the ship, in world units
+export type PointerSteering =
+  | { mode: "relative"; x: number; y: number; sensitivity: number } // The ship moves as far as the pointer, scaled
+  | { mode: "absolute"; x: number; y: number } // Where to put the ship's top-left corner
+
+// Virtual joystick to draw, in client coordinates
+export interface JoystickView {
+  center: Vector
+  knob: Vector
+}
+
+// Abstract actions the game reads each tick, merged from keyboard, pointer, touch and gamepad
+export interface InputActions {
+  moveX: number // -1 to 1
+  moveY: number
+  fire: boolean
+  bomb: boolean
+  pointer: PointerSteering | null // Null when not dragging
+}
+
+export interface InputManagerOptions {
+  element: HTMLElement // Receives pointer and touch input
+  toWorld: (clientX: number, clientY: number) => Vector
+  onChange: (actions: InputActions) => void
+  onCommand: (action: CommandAction) => void // Pause, mute or fullscreen was pressed, in any state
+  onJoystick?: (joystick: JoystickView | null) => void // The virtual joystick moved, appeared or went away
+}
+
+export interface InputManager {
+  // Steering is only read while a game is running; disabling releases everything
+  setEnabled: (enabled: boolean) => void
+  setBindings: (bindings: KeyBindings) => void
+  setGamepadSettings: (settings: GamepadSettings) => void
+  setTouchSettings: (settings: TouchSettings) => void
+  // With auto-fire off the ship only shoots while fire is held or a pointer is steering
+  setAutoFire: (autoFire: boolean) => void
+  setBombButton: (held: boolean) => void // On-screen bomb button, for touch screens without a bomb key
+  dispose: () => void
+}
+
+// Holding a direction in menus moves focus once, then repeats after a delay
+const NAV_THRESHOLD = 0.5
+const NAV_REPEAT_DELAY = 400
+const NAV_REPEAT_INTERVAL = 150
+
+// Pointer presses on controls shouldn't start a drag
+const CONTROL_SELECTOR = "button, input, select, label, a"
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLSelectElement || target instanceof HTMLTextAreaElement
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value))
+
+// Menu direction a gamepad is held in, vertical taking priority
+const navDirection = (pad: GamepadState) =>
+  Math.abs(pad.moveY) >= NAV_THRESHOLD
+    ? Math.sign(pad.moveY) * 2
+    : Math.abs(pad.moveX) >= NAV_THRESHOLD
+      ? Math.sign(pad.moveX)
+      : 0
+
+// Map physical inputs to actions outside React, so listeners are registered once
+// and every change reaches the simulation immediately.
+export function createInputManager({
+  element,
+  toWorld,
+  onChange,
+  onCommand,
+  onJoystick,
+}: InputManagerOptions): InputManager {
+  let keyMap = createKeyMap(DEFAULT_KEY_BINDINGS)
+  let enabled = false
+  let autoFire = true
+
+  const pressedKeys = new Set<string>()
+
+  // The one pointer steering the ship, and how. Mice always drag relatively.
+  let touchSettings = DEFAULT_TOUCH_SETTINGS
+  let pointerId: number | null = null
+  let pointerScheme: TouchScheme = "relative"
+  let pointer: PointerSteering | null = null
+  let joystickCenter: Vector | null = null
+  let stick: Vector = { x: 0, y: 0 }
+
+  // Gamepad state, polled every animation frame while a pad is connected
+  let gamepadSettings = DEFAULT_GAMEPAD_SETTINGS
+  let pollId: number | null = null
+  let pad = createGamepadState()
+  let previousPad = createGamepadState()
+  let nav = 0 // Direction currently held in menus, -1/1 horizontal and -2/2 vertical
+  let navRepeatAt = 0
+
+  let bombButton = false
+
+  let last: InputActions = { moveX: 0, moveY: 0, fire: false, bomb: false, pointer: null }
+
+  const keyHeld = (action: BindableAction) => {
+    for (const code of pressedKeys) {
+      if (keyMap.get(code) === action) return true
+    }
+    return false
+  }
+
+  const update = () => {
+    const next: InputActions = enabled
+      ? {
+          moveX: clamp(Number(keyHeld("right")) - Number(keyHeld("left")) + pad.moveX + stick.x),
+          moveY: clamp(Number(keyHeld("down")) - Number(keyHeld("up")) + pad.moveY + stick.y),
+          fire: autoFire || keyHeld("fire") || pad.fire || pointerId !== null,
+          bomb: keyHeld("bomb") || pad.bomb || bombButton,
+          pointer,
+        }
+      : { moveX: 0, moveY: 0, fire: false, bomb: false, pointer: null }
+
+    if (
+      next.moveX === last.moveX &&
+      next.moveY === last.moveY &&
+      next.fire === last.fire &&
+      next.bomb === last.bomb &&
+      next.pointer === last.pointer
+    ) {
+      return
+    }
+
+    last = next
+    onChange(next)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (isTextField(e.target)) return
+    const action = keyMap.get(e.code)
+    if (!action) return
+
+    if (isCommandAction(action)) {
+      if (!e.repeat) {
+        e.preventDefault()
+        onCommand(action)
+      }
+      return
+    }
+
+    if (!enabled) return
+    // Keep arrows from scrolling and space from clicking the focused button
+    e.preventDefault()
+    pressedKeys.add(e.code)
+    update()
+  }
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    if (pressedKeys.delete(e.code)) update()
+  }
+
+  // Steer from a pointer position according to the active scheme
+  const steer = (e: PointerEvent) => {
+    if (pointerScheme === "joystick" && joystickCenter) {
+      const { stick: deflection, knob } = joystickDeflection(joystickCenter, { x: e.clientX, y: e.clientY })
+      stick = deflection
+      onJoystick?.({ center: joystickCenter, knob })
+      return
+    }
+
+    const position = toWorld(e.clientX, e.clientY)
+    if (pointerScheme === "follow") {
+      pointer = { mode: "absolute", ...followTarget(position) }
+    } else {
+      const sensitivity = e.pointerType === "mouse" ? 1 : touchSettings.sensitivity
+      pointer = { mode: "relative", ...position, sensitivity }
+    }
+  }
+
+  const releasePointer = () => {
+    if (joystickCenter) onJoystick?.(null)
+    pointerId = null
+    pointer = null
+    joystickCenter = null
+    stick = { x: 0, y: 0 }
+  }
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (!enabled || pointerId !== null || !e.isPrimary) return
+    if (e.target instanceof Element && e.target.closest(CONTROL_SELECTOR)) return
+
+    pointerScheme = e.pointerType === "mouse" ? "relative" : touchSettings.scheme
+    if (pointerScheme === "joystick") {
+      const { handedness, joystickPosition } = touchSettings
+      const rect = element.getBoundingClientRect()
+      if (!inJoystickZone(rect, e.clientX, handedness)) return
+
+      joystickCenter =
+        joystickPosition === "fixed" ? fixedJoystickCenter(rect, handedness) : { x: e.clientX, y: e.clientY }
+    }
+
+    pointerId = e.pointerId
+    element.setPointerCapture?.(e.pointerId)
+    steer(e)
+    update()
+  }
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return
+
+    steer(e)
+    update()
+  }
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return
+
+    releasePointer()
+    update()
+  }
+
+  const releaseAll = () => {
+    pressedKeys.clear()
+    bombButton = false
+    releasePointer()
+    update()
+  }
+
+  // Outside of gameplay the pad drives the menus instead: directions move focus, A presses and B backs out
+  const navigateMenus = (now: number) => {
+    if (pad.confirm && !previousPad.confirm) activateFocus()
+    if (pad.back && !previousPad.back) onCommand("pause")
+
+    const direction = navDirection(pad)
+    if (direction === 0 || (direction === nav && now < navRepeatAt)) {
+      nav = direction
+      return
+    }
+
+    navRepeatAt = now + (direction === nav ? NAV_REPEAT_INTERVAL : NAV_REPEAT_DELAY)
+    nav = direction
+    if (Math.abs(direction) === 2) moveFocus(direction > 0 ? 1 : -1)
+    else moveFocusHorizontally(direction > 0 ? 1 : -1)
+  }
+
+  const pollGamepads = (now: number) => {
+    pollId = null
+    // Reuse the older state object for this frame's reading
+    const reused = previousPad
+    previousPad = pad
+    pad = readGamepads(gamepadSettings, reused)
+
+    // Start behaves like the pause key, once per press
+    if (pad.start && !previousPad.start) onCommand("pause")
+
+    if (enabled) {
+      nav = 0
+      update()
+    } else {
+      navigateMenus(now)
+    }
+
+    if (pad.connected) pollId = requestAnimationFrame(pollGamepads)
+  }
+
+  const handleGamepadConnected = () => {
+    if (pollId === null) pollId = requestAnimationFrame(pollGamepads)
+  }
+
+  window.addEventListener("keydown", handleKeyDown)
+  window.addEventListener("keyup", handleKeyUp)
+  window.addEventListener("blur", releaseAll)
+  window.addEventListener("gamepadconnected", handleGamepadConnected)
+  element.addEventListener("pointerdown", handlePointerDown)
+  element.addEventListener("pointermove", handlePointerMove)
+  element.addEventListener("pointerup", handlePointerUp)
+  element.addEventListener("pointercancel", handlePointerUp)
+
+  // Pads connected before the page loaded only announce themselves once a button is pressed
+  handleGamepadConnected()
+
+  return {
+    setEnabled(next) {
+      if (next === enabled) return
+
+      enabled = next
+      if (!enabled) {
+        pressedKeys.clear()
+        bombButton = false
+        releasePointer()
+      }
+      update()
+    },
+    setBindings(bindings) {
+      keyMap = createKeyMap(bindings)
+      pressedKeys.clear()
+      update()
+    },
+    setGamepadSettings(settings) {
+      gamepadSettings = settings
+    },
+    setTouchSettings(settings) {
+      touchSettings = settings
+      releasePointer()
+      update()
+    },
+    setAutoFire(next) {
+      autoFire = next
+      update()
+    },
+    setBombButton(held) {
+      bombButton = held
+      update()
+    },
+    dispose() {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", releaseAll)
+      window.removeEventListener("gamepadconnected", handleGamepadConnected)
+      element.removeEventListener("pointerdown", handlePointerDown)
+      element.removeEventListener("pointermove", handlePointerMove)
+      element.removeEventListener("pointerup", handlePointerUp)
+      element.removeEventListener("pointercancel", handlePointerUp)
+      if (pollId !== null) cancelAnimationFrame(pollId)
+    },
+  }
+}
@@ -0,0 +1,44 @@
+// Moves focus between menu controls for input devices without a pointer, i.e. gamepads
+
+const FOCUSABLE = "button:not([disabled]), input:not([disabled]):not([type='file']), select:not([disabled])"
+
+// Visible controls in the topmost open dialog, or on the whole page when there is none
+function focusableItems(): HTMLElement[] {
+  const dialogs = document.querySelectorAll<HTMLElement>("[role='dialog']")
+  const scope = dialogs.length > 0 ? dialogs[dialogs.length - 1] : document.body
+  return Array.from(scope.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((item) => item.offsetParent !== null)
+}
+
+const focusedRange = () => {
+  const active = document.activeElement
+  return active instanceof HTMLInputElement && active.type === "range" ? active : null
+}
+
+// Step to the previous (-1) or next (1) control, wrapping around
+export function moveFocus(step: -1 | 1) {
+  const items = focusableItems()
+  if (items.length === 0) return
+
+  const index = items.indexOf(document.activeElement as HTMLElement)
+  const next = index === -1 ? (step === 1 ? 0 : items.length - 1) : (index + step + items.length) % items.length
+  items[next].focus()
+}
+
+// Left and right adjust a focused slider, and otherwise move focus like up and down
+export function moveFocusHorizontally(step: -1 | 1) {
+  const range = focusedRange()
+  if (!range) {
+    moveFocus(step)
+    return
+  }
+
+  if (step === 1) range.stepUp()
+  else range.stepDown()
+  range.dispatchEvent(new Event("input", { bubbles: true }))
+}
+
+// Press the focused control
+export function activateFocus() {
+  const active = document.activeElement
+  if (active instanceof HTMLElement && focusableItems().includes(active)) active.click()
+}
@@ -0,0 +1,11 @@
+// Parse a JSON object saved in localStorage. Missing, malformed or non-object values read as an empty object
+// so callers can fall back to their defaults field by field.
+export function readSavedJson<K extends string>(json: string | null): Partial<Record<K, unknown>> {
+  let data: unknown
+  try {
+    data = json ? JSON.parse(json) : null
+  } catch {
+    data = null
+  }
+  return data && typeof data === "object" && !Array.isArray(data) ? (data as Partial<Record<K, unknown>>) : {}
+}
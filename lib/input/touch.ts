@@ -0,0 +1,99 @@
+import { PLAYER_SIZE, type Vector } from "@/lib/engine"
+import { readSavedJson } from "./saved-json"
+
+// How a finger steers the ship:
+// - relative: the ship moves by how far the finger moves, scaled by the sensitivity
+// - follow: the ship sits just above the finger so it stays visible
+// - joystick: a virtual stick appears under the thumb and steers like a gamepad
+export type TouchScheme = "relative" | "follow" | "joystick"
+
+export type Handedness = "left" | "right"
+
+// A floating joystick is centered wherever the thumb lands, a fixed one sits in the bottom corner
+export type JoystickPosition = "floating" | "fixed"
+
+export interface TouchSettings {
+  scheme: TouchScheme
+  sensitivity: number // Relative drag only
+  handedness: Handedness // Side of the screen the joystick takes touches on
+  joystickPosition: JoystickPosition
+}
+
+export const DEFAULT_TOUCH_SETTINGS: TouchSettings = {
+  scheme: "relative",
+  sensitivity: 1,
+  handedness: "right",
+  joystickPosition: "floating",
+}
+
+export const TOUCH_SCHEMES: readonly TouchScheme[] = ["relative", "follow", "joystick"]
+
+export const TOUCH_SCHEME_LABELS: Record<TouchScheme, string> = {
+  relative: "Drag",
+  follow: "Follow Finger",
+  joystick: "Joystick",
+}
+
+export const MIN_TOUCH_SENSITIVITY = 0.5
+export const MAX_TOUCH_SENSITIVITY = 3
+
+// Gap in world units between the finger and the bottom of the ship in follow mode
+export const FOLLOW_GAP = 40
+
+// Joystick size and inset from the screen corner, in CSS pixels
+export const JOYSTICK_RADIUS = 56
+export const JOYSTICK_MARGIN = 32
+// Stick deflection ignored around the center
+const JOYSTICK_DEAD_ZONE = 0.15
+
+// Where a follow-mode finger puts the ship's top-left corner, in world units
+export const followTarget = (finger: Vector): Vector => ({
+  x: finger.x - PLAYER_SIZE / 2,
+  y: finger.y - PLAYER_SIZE - FOLLOW_GAP,
+})
+
+// Does a touch at clientX land on the joystick's side of the element?
+export function inJoystickZone(rect: DOMRect, clientX: number, handedness: Handedness): boolean {
+  const middle = rect.left + rect.width / 2
+  return handedness === "right" ? clientX >= middle : clientX < middle
+}
+
+// Center of a fixed joystick, in client coordinates
+export function fixedJoystickCenter(rect: DOMRect, handedness: Handedness): Vector {
+  const inset = JOYSTICK_MARGIN + JOYSTICK_RADIUS
+  return {
+    x: handedness === "right" ? rect.right - inset : rect.left + inset,
+    y: rect.bottom - inset,
+  }
+}
+
+// Stick deflection (-1 to 1 on each axis) for a thumb at `thumb`, and where to draw the knob
+export function joystickDeflection(center: Vector, thumb: Vector): { stick: Vector; knob: Vector } {
+  const dx = thumb.x - center.x
+  const dy = thumb.y - center.y
+  const distance = Math.hypot(dx, dy)
+  const scale = distance > JOYSTICK_RADIUS ? JOYSTICK_RADIUS / distance : 1
+  const knob = { x: center.x + dx * scale, y: center.y + dy * scale }
+
+  if (distance < JOYSTICK_RADIUS * JOYSTICK_DEAD_ZONE) return { stick: { x: 0, y: 0 }, knob }
+  return { stick: { x: (dx * scale) / JOYSTICK_RADIUS, y: (dy * scale) / JOYSTICK_RADIUS }, knob }
+}
+
+// Read saved settings, falling back to the defaults for anything missing or invalid
+export function parseTouchSettings(json: string | null): TouchSettings {
+  const saved = readSavedJson<keyof TouchSettings>(json)
+  const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+    options.includes(value as T) ? (value as T) : fallback
+
+  return {
+    scheme: oneOf(saved.scheme, TOUCH_SCHEMES, DEFAULT_TOUCH_SETTINGS.scheme),
+    sensitivity:
+      typeof saved.sensitivity === "number" &&
+      saved.sensitivity >= MIN_TOUCH_SENSITIVITY &&
+      saved.sensitivity <= MAX_TOUCH_SENSITIVITY
+        ? saved.sensitivity
+        : DEFAULT_TOUCH_SETTINGS.sensitivity,
+    handedness: oneOf(saved.handedness, ["left", "right"], DEFAULT_TOUCH_SETTINGS.handedness),
+    joystickPosition: oneOf(saved.joystickPosition, ["floating", "fixed"], DEFAULT_TOUCH_SETTINGS.joystickPosition),
+  }
+}
@@ -0,0 +1,484 @@
+import {
+  BLOCK_SIZE,
+  BOSS_COLUMNS,
+  BOSS_ROWS,
+  BOSS_SHAPE,
+  BULLET_HEIGHT,
+  BULLET_SHAPE,
+  BULLET_WIDTH,
+  ENEMY_BULLET_SHAPE,
+  ENEMY_BULLET_SIZE,
+  isPowerUpActive,
+  LASER_WIDTH,
+  PLAYER_SHAPE,
+  PLAYER_SIZE,
+  POWER_UP_SHAPE,
+  getBlockShape,
+  getTurretAngle,
+  TURRETS,
+  type Block,
+  type Boss,
+  POWER_UP_SIZE,
+  type PowerUpType,
+  type Shape,
+  type World,
+} from "@/lib/engine"
+import { fitViewport } from "./viewport"
+
+type Canvas = HTMLCanvasElement | OffscreenCanvas
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+// Tailwind palette used by the original DOM renderer
+const COLORS = {
+  white: "#ffffff",
+  letterbox: "#030712", // gray-950
+  bullet: "#facc15", // yellow-400
+  unbreakable: "#374151", // gray-700
+  unbreakableBorder: "#6b7280", // gray-500
+  unknownHp: "#6b7280", // gray-500
+  planeBody: "#3b82f6", // blue-500
+  planeWings: "#2563eb", // blue-600
+  planeTail: "#1d4ed8", // blue-700
+  cockpit: "#67e8f9", // cyan-300
+  flame: "#f97316", // orange-500
+  crack: "#111827", // gray-900
+  explosive: "#ef4444", // red-500
+  regenerating: "#4ade80", // green-400
+  armor: "#d1d5db", // gray-300
+  enemyBullet: "#f472b6", // pink-400
+  piercingBullet: "#e5e7eb", // gray-200
+  homingBullet: "#fb923c", // orange-400
+  laser: "#4ade80", // green-400
+  shield: "#22d3ee", // cyan-400
+}
+
+// Debug hitbox outlines by entity kind
+const HITBOX_COLORS = {
+  player: "#22d3ee", // cyan-400
+  block: "#f87171", // red-400
+  powerUp: "#4ade80", // green-400
+  bullet: "#facc15", // yellow-400
+  enemyBullet: "#f472b6", // pink-400
+  boss: "#e879f9", // fuchsia-400
+}
+
+// Boss cell colors by phase, getting angrier as it weakens
+const BOSS_COLORS = [
+  "#7c3aed", // violet-600
+  "#c026d3", // fuchsia-600
+  "#dc2626", // red-600
+]
+
+// Block colors by HP, red (1) through pink (10)
+const HP_COLORS = [
+  "#ef4444", // red-500
+  "#f97316", // orange-500
+  "#eab308", // yellow-500
+  "#84cc16", // lime-500
+  "#22c55e", // green-500
+  "#14b8a6", // teal-500
+  "#3b82f6", // blue-500
+  "#6366f1", // indigo-500
+  "#a855f7", // purple-500
+  "#ec4899", // pink-500
+]
+
+// Power-up color and icon based on type
+export const POWER_UP_STYLES: Record<PowerUpType, { color: string; icon: string }> = {
+  fireSpeed: { color: "#ef4444", icon: "🔥" },
+  multiDirectional: { color: "#3b82f6", icon: "🔱" },
+  slowMotion: { color: "#a855f7", icon: "⏱️" },
+  shield: { color: "#06b6d4", icon: "🛡️" },
+  piercing: { color: "#f59e0b", icon: "🗡️" },
+  homing: { color: "#f97316", icon: "🚀" },
+  bomb: { color: "#64748b", icon: "💣" },
+  magnet: { color: "#ec4899", icon: "🧲" },
+  scoreMultiplier: { color: "#eab308", icon: "💰" },
+  laser: { color: "#22c55e", icon: "⚡" },
+}
+
+// Power-ups are drawn as circles filling their box
+const POWER_UP_RADIUS = POWER_UP_SIZE / 2
+
+// The invulnerable player flickers on and off every this many ms
+const BLINK_INTERVAL = 100
+
+export interface RenderOptions {
+  hitboxes?: boolean // Outline the collision box of every entity
+}
+
+export interface CanvasRenderer {
+  // Match the backing store to the container size in CSS pixels
+  resize: (width: number, height: number, pixelRatio: number) => void
+  render: (world: World, options?: RenderOptions) => void
+  clear: () => void
+}
+
+function getBlockColor(hp: number, isBreakable: boolean) {
+  if (!isBreakable) return COLORS.unbreakable
+  return HP_COLORS[hp - 1] ?? COLORS.unknownHp
+}
+
+// A block with its HP, decorated by kind so special behaviours can be told apart
+function drawBlock(ctx: Context2D, block: Block, world: World) {
+  const { x, y, size } = block
+  const centerX = x + size / 2
+
+  // Meteors trail flames behind them
+  if (block.kind === "meteor") {
+    ctx.globalAlpha = 0.5
+    ctx.fillStyle = COLORS.flame
+    ctx.beginPath()
+    ctx.moveTo(x + 4, y + size / 2)
+    ctx.lineTo(centerX, y - size)
+    ctx.lineTo(x + size - 4, y + size / 2)
+    ctx.fill()
+    ctx.globalAlpha = 1
+  }
+
+  ctx.fillStyle = block.hitFlash > 0 ? COLORS.white : getBlockColor(block.hp, block.isBreakable)
+  ctx.beginPath()
+  ctx.roundRect(x, y, size, size, block.kind === "meteor" ? size / 2.5 : size / 5)
+  ctx.fill()
+
+  ctx.lineWidth = 1
+  if (!block.isBreakable && block.hitFlash <= 0) {
+    ctx.strokeStyle = COLORS.unbreakableBorder
+    ctx.stroke()
+  }
+
+  switch (block.kind) {
+    case "zigzag":
+      // Wavy stripe along the bottom
+      ctx.strokeStyle = COLORS.white
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      for (let i = 0; i <= 4; i++) {
+        ctx.lineTo(x + 4 + ((size - 8) * i) / 4, y + size - (i % 2 === 0 ? 6 : 12))
+      }
+      ctx.stroke()
+      break
+    case "splitter":
+      // Crack down the middle
+      ctx.strokeStyle = COLORS.crack
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.moveTo(centerX, y)
+      ctx.lineTo(centerX - 4, y + size * 0.3)
+      ctx.lineTo(centerX + 4, y + size * 0.6)
+      ctx.lineTo(centerX, y + size)
+      ctx.stroke()
+      break
+    case "explosive":
+      // Pulsing warning ring
+      ctx.globalAlpha = 0.5 + 0.5 * Math.sin((world.time / 300) * Math.PI)
+      ctx.strokeStyle = COLORS.explosive
+      ctx.lineWidth = 3
+      ctx.stroke()
+      ctx.globalAlpha = 1
+      break
+    case "regenerating":
+      ctx.strokeStyle = COLORS.regenerating
+      ctx.lineWidth = 3
+      ctx.stroke()
+      break
+    case "armored":
+      // Heavy plating with a rivet in each corner
+      ctx.strokeStyle = COLORS.armor
+      ctx.lineWidth = 4
+      ctx.stroke()
+      ctx.fillStyle = COLORS.armor
+      for (const [rx, ry] of [
+        [x + 6, y + 6],
+        [x + size - 6, y + 6],
+        [x + 6, y + size - 6],
+        [x + size - 6, y + size - 6],
+      ]) {
+        ctx.beginPath()
+        ctx.arc(rx, ry, 2, 0, Math.PI * 2)
+        ctx.fill()
+      }
+      break
+    case "turret": {
+      // Barrels pointing where the next volley goes, around a dark dome
+      const { count, gap } = TURRETS[block.pattern]
+      const angle = getTurretAngle(block, world)
+      const centerY = y + size / 2
+      ctx.strokeStyle = COLORS.crack
+      ctx.lineWidth = 4
+      ctx.lineCap = "round"
+      ctx.beginPath()
+      for (let i = 0; i < count; i++) {
+        const barrelAngle = angle + (i - (count - 1) / 2) * gap
+        ctx.moveTo(centerX, centerY)
+        ctx.lineTo(centerX + Math.cos(barrelAngle) * size * 0.5, centerY + Math.sin(barrelAngle) * size * 0.5)
+      }
+      ctx.stroke()
+      ctx.lineCap = "butt"
+      ctx.fillStyle = COLORS.crack
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, size / 3, 0, Math.PI * 2)
+      ctx.fill()
+      break
+    }
+  }
+
+  ctx.fillStyle = COLORS.white
+  ctx.font = size === BLOCK_SIZE ? "bold 18px sans-serif" : "bold 12px sans-serif"
+  ctx.fillText(block.isBreakable ? String(block.hp) : "∞", centerX, y + size / 2)
+}
+
+function drawPlayer(ctx: Context2D, x: number, y: number, time: number) {
+  const centerX = x + PLAYER_SIZE / 2
+
+  // Main body of the plane
+  ctx.fillStyle = COLORS.planeBody
+  ctx.beginPath()
+  ctx.roundRect(centerX - 16, y, 32, 48, [16, 16, 0, 0])
+  ctx.fill()
+
+  // Wings
+  ctx.fillStyle = COLORS.planeWings
+  ctx.beginPath()
+  ctx.roundRect(x, y + 24, PLAYER_SIZE, 16, 2)
+  ctx.fill()
+
+  // Tail
+  ctx.fillStyle = COLORS.planeTail
+  ctx.beginPath()
+  ctx.roundRect(centerX - 12, y + 36, 24, 12, [0, 0, 2, 2])
+  ctx.fill()
+
+  // Cockpit
+  ctx.fillStyle = COLORS.cockpit
+  ctx.beginPath()
+  ctx.arc(centerX, y + 20, 8, 0, Math.PI * 2)
+  ctx.fill()
+
+  // Engine flames, pulsing like animate-pulse
+  ctx.globalAlpha = 0.75 + 0.25 * Math.cos((time / 2000) * Math.PI * 2)
+  ctx.fillStyle = COLORS.flame
+  ctx.beginPath()
+  ctx.roundRect(centerX - 4, y + 44, 8, 12, [0, 0, 4, 4])
+  ctx.fill()
+  ctx.globalAlpha = 1
+}
+
+// A grid of block-sized cells with a pair of eyes in the middle
+function drawBoss(ctx: Context2D, boss: Boss) {
+  ctx.fillStyle = boss.hitFlash > 0 ? COLORS.white : (BOSS_COLORS[boss.phase] ?? BOSS_COLORS[0])
+  for (let row = 0; row < BOSS_ROWS; row++) {
+    for (let column = 0; column < BOSS_COLUMNS; column++) {
+      ctx.beginPath()
+      ctx.roundRect(boss.x + column * BLOCK_SIZE + 1, boss.y + row * BLOCK_SIZE + 1, BLOCK_SIZE - 2, BLOCK_SIZE - 2, 6)
+      ctx.fill()
+    }
+  }
+
+  const centerX = boss.x + (BOSS_COLUMNS * BLOCK_SIZE) / 2
+  const eyeY = boss.y + BLOCK_SIZE * 0.75
+  ctx.fillStyle = COLORS.white
+  for (const side of [-1, 1]) {
+    ctx.beginPath()
+    ctx.arc(centerX + side * BLOCK_SIZE * 0.6, eyeY, 8, 0, Math.PI * 2)
+    ctx.fill()
+  }
+}
+
+// Outline a collision shape placed at an entity position
+function strokeShape(ctx: Context2D, shape: Shape, x: number, y: number, angle: number) {
+  switch (shape.kind) {
+    case "circle":
+      ctx.beginPath()
+      ctx.arc(x + shape.x, y + shape.y, shape.radius, 0, Math.PI * 2)
+      ctx.stroke()
+      break
+    case "capsule": {
+      // Two half circles joined along the segment
+      const direction = Math.atan2(shape.by - shape.ay, shape.bx - shape.ax)
+      ctx.beginPath()
+      ctx.arc(x + shape.ax, y + shape.ay, shape.radius, direction + Math.PI / 2, direction - Math.PI / 2)
+      ctx.arc(x + shape.bx, y + shape.by, shape.radius, direction - Math.PI / 2, direction + Math.PI / 2)
+      ctx.closePath()
+      ctx.stroke()
+      break
+    }
+    case "box":
+      ctx.strokeRect(x + shape.x, y + shape.y, shape.width, shape.height)
+      break
+    case "orientedBox":
+      ctx.save()
+      ctx.translate(x + shape.x, y + shape.y)
+      ctx.rotate((angle * Math.PI) / 180)
+      ctx.strokeRect(-shape.width / 2, -shape.height / 2, shape.width, shape.height)
+      ctx.restore()
+      break
+    case "compound":
+      for (const part of shape.parts) {
+        strokeShape(ctx, part, x, y, angle)
+      }
+      break
+  }
+}
+
+// Outline the shapes the collision system tests
+function drawHitboxes(ctx: Context2D, world: World) {
+  ctx.lineWidth = 1
+
+  ctx.strokeStyle = HITBOX_COLORS.block
+  for (const block of world.blocks) {
+    strokeShape(ctx, getBlockShape(block), block.x, block.y, 0)
+  }
+
+  if (world.boss) {
+    ctx.strokeStyle = HITBOX_COLORS.boss
+    strokeShape(ctx, BOSS_SHAPE, world.boss.x, world.boss.y, 0)
+  }
+
+  ctx.strokeStyle = HITBOX_COLORS.powerUp
+  for (const powerUp of world.powerUps) {
+    strokeShape(ctx, POWER_UP_SHAPE, powerUp.x, powerUp.y, 0)
+  }
+
+  ctx.strokeStyle = HITBOX_COLORS.bullet
+  for (const bullet of world.bullets) {
+    strokeShape(ctx, BULLET_SHAPE, bullet.x, bullet.y, bullet.angle)
+  }
+
+  ctx.strokeStyle = HITBOX_COLORS.enemyBullet
+  for (const bullet of world.enemyBullets) {
+    strokeShape(ctx, ENEMY_BULLET_SHAPE, bullet.x, bullet.y, 0)
+  }
+
+  ctx.strokeStyle = HITBOX_COLORS.player
+  strokeShape(ctx, PLAYER_SHAPE, world.player.x, world.player.y, 0)
+}
+
+// Draw the world straight from engine state - no per-frame copies or DOM nodes
+export function createCanvasRenderer(canvas: Canvas): CanvasRenderer {
+  const context = canvas.getContext("2d") as Context2D | null
+  if (!context) {
+    throw new Error("Canvas 2D context is not available")
+  }
+  const ctx = context
+
+  let width = canvas.width
+  let height = canvas.height
+  let pixelRatio = 1
+
+  return {
+    resize(nextWidth, nextHeight, nextPixelRatio) {
+      if (nextWidth === width && nextHeight === height && nextPixelRatio === pixelRatio) return
+
+      width = nextWidth
+      height = nextHeight
+      pixelRatio = nextPixelRatio
+      canvas.width = Math.round(width * pixelRatio)
+      canvas.height = Math.round(height * pixelRatio)
+    },
+
+    render(world, options) {
+      const viewport = fitViewport(width, height, world.width, world.height)
+
+      // Letterbox bars around the playfield
+      ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+      ctx.fillStyle = COLORS.letterbox
+      ctx.fillRect(0, 0, width, height)
+
+      // Everything else is drawn in world units, clipped to the playfield
+      const scale = viewport.scale * pixelRatio
+      ctx.setTransform(scale, 0, 0, scale, viewport.offsetX * pixelRatio, viewport.offsetY * pixelRatio)
+      ctx.clearRect(0, 0, world.width, world.height)
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(0, 0, world.width, world.height)
+      ctx.clip()
+
+      if (world.boss) drawBoss(ctx, world.boss)
+
+      // Blocks
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      for (const block of world.blocks) {
+        drawBlock(ctx, block, world)
+      }
+
+      // Power-ups
+      const pulse = 0.75 + 0.25 * Math.cos((world.time / 2000) * Math.PI * 2)
+      for (const powerUp of world.powerUps) {
+        const style = POWER_UP_STYLES[powerUp.type]
+        const centerX = powerUp.x + POWER_UP_RADIUS
+        const centerY = powerUp.y + POWER_UP_RADIUS
+
+        ctx.globalAlpha = pulse
+        ctx.fillStyle = style.color
+        ctx.beginPath()
+        ctx.arc(centerX, centerY, POWER_UP_RADIUS, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.globalAlpha = 1
+        ctx.fillText(style.icon, centerX, centerY)
+      }
+
+      // Bullets, rotated around their center for multi-directional fire
+      for (const bullet of world.bullets) {
+        ctx.fillStyle = bullet.homing ? COLORS.homingBullet : bullet.piercing ? COLORS.piercingBullet : COLORS.bullet
+        ctx.save()
+        ctx.translate(bullet.x + BULLET_WIDTH / 2, bullet.y + BULLET_HEIGHT / 2)
+        ctx.rotate((bullet.angle * Math.PI) / 180)
+        ctx.beginPath()
+        ctx.roundRect(-BULLET_WIDTH / 2, -BULLET_HEIGHT / 2, BULLET_WIDTH, BULLET_HEIGHT, BULLET_WIDTH / 2)
+        ctx.fill()
+        ctx.restore()
+      }
+
+      // Laser from the ship's nose up to whatever it is burning through
+      if (world.laserY !== null) {
+        const laserX = world.player.x + PLAYER_SIZE / 2
+        const flicker = 0.8 + 0.2 * Math.sin(world.time / 20)
+        ctx.fillStyle = COLORS.laser
+        ctx.globalAlpha = 0.6 * flicker
+        ctx.fillRect(laserX - LASER_WIDTH / 2, world.laserY, LASER_WIDTH, world.player.y - world.laserY)
+        ctx.globalAlpha = 1
+        ctx.fillStyle = COLORS.white
+        ctx.fillRect(laserX - LASER_WIDTH / 6, world.laserY, LASER_WIDTH / 3, world.player.y - world.laserY)
+      }
+
+      // Blink while invulnerable after a hit
+      if (Math.floor(world.invulnerableTime / BLINK_INTERVAL) % 2 === 0) {
+        drawPlayer(ctx, world.player.x, world.player.y, world.time)
+      }
+
+      if (isPowerUpActive(world, "shield")) {
+        ctx.strokeStyle = COLORS.shield
+        ctx.lineWidth = 2
+        ctx.globalAlpha = 0.6 + 0.2 * Math.sin(world.time / 150)
+        ctx.beginPath()
+        ctx.arc(world.player.x + PLAYER_SIZE / 2, world.player.y + PLAYER_SIZE / 2, PLAYER_SIZE * 0.75, 0, Math.PI * 2)
+        ctx.stroke()
+        ctx.globalAlpha = 1
+      }
+
+      // Enemy bullets on top of everything so they are never hidden
+      for (const bullet of world.enemyBullets) {
+        const centerX = bullet.x + ENEMY_BULLET_SIZE / 2
+        const centerY = bullet.y + ENEMY_BULLET_SIZE / 2
+        ctx.fillStyle = COLORS.enemyBullet
+        ctx.beginPath()
+        ctx.arc(centerX, centerY, ENEMY_BULLET_SIZE / 2, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.fillStyle = COLORS.white
+        ctx.beginPath()
+        ctx.arc(centerX, centerY, ENEMY_BULLET_SIZE / 5, 0, Math.PI * 2)
+        ctx.fill()
+      }
+
+      if (options?.hitboxes) drawHitboxes(ctx, world)
+      ctx.restore()
+    },
+
+    clear() {
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.clearRect(0, 0, canvas.width, canvas.height)
+    },
+  }
+}
@@ -0,0 +1,31 @@
+import type { Vector } from "@/lib/engine"
+
+// Maps the logical world onto the screen: uniformly scaled and centered, letterboxed on the long axis
+export interface Viewport {
+  scale: number
+  offsetX: number // Screen pixels from the container's left edge to the world's left edge
+  offsetY: number
+}
+
+export function fitViewport(
+  containerWidth: number,
+  containerHeight: number,
+  worldWidth: number,
+  worldHeight: number,
+): Viewport {
+  const scale = Math.max(Math.min(containerWidth / worldWidth, containerHeight / worldHeight), Number.EPSILON)
+
+  return {
+    scale,
+    offsetX: (containerWidth - worldWidth * scale) / 2,
+    offsetY: (containerHeight - worldHeight * scale) / 2,
+  }
+}
+
+// Convert a point relative to the container into world units
+export function screenToWorld(viewport: Viewport, x: number, y: number): Vector {
+  return {
+    x: (x - viewport.offsetX) / viewport.scale,
+    y: (y - viewport.offsetY) / viewport.scale,
+  }
+}
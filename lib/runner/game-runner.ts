@@ -0,0 +1,375 @@
+import {
+  createAutopilot,
+  createFixedStepLoop,
+  createPlayerInput,
+  createInputRecorder,
+  createReplayPlayer,
+  createWorld,
+  drainEvents,
+  FIXED_STEP,
+  PLAYER_SIZE,
+  POWER_UP_TYPES,
+  randomSeed,
+  step,
+  type InputRecorder,
+  type InputSource,
+  type ReplayPlayer,
+  type Vector,
+  type World,
+} from "@/lib/engine"
+import { createCanvasRenderer } from "@/lib/render/canvas-renderer"
+import type { DebugSnapshot, HudSnapshot, RunnerCommand, RunnerMessage } from "./protocol"
+
+type RunnerMode = "stopped" | "playing" | "paused" | "replay" | "attract"
+
+// Pause between attract mode demos after the autopilot dies
+const ATTRACT_RESTART_DELAY = 1500
+
+// How often the debug overlay metrics are sent, in ms
+const DEBUG_INTERVAL = 250
+
+export interface GameRunner {
+  handle: (command: RunnerCommand) => void
+}
+
+// A requestAnimationFrame id, or a timer handle where the fallback is used
+type FrameHandle = number | ReturnType<typeof setTimeout>
+
+// Workers with OffscreenCanvas get requestAnimationFrame in most browsers, fall back to a timer otherwise
+const requestFrame: (callback: (now: number) => void) => FrameHandle =
+  typeof requestAnimationFrame === "function"
+    ? (callback) => requestAnimationFrame(callback)
+    : (callback) => setTimeout(() => callback(performance.now()), FIXED_STEP)
+
+const cancelFrame: (handle: FrameHandle) => void =
+  typeof cancelAnimationFrame === "function"
+    ? (handle) => cancelAnimationFrame(handle as number)
+    : (handle) => clearTimeout(handle)
+
+const secondsLeft = (ms: number) => Math.ceil(ms / 1000)
+
+// Compare the world with the last snapshot field by field, so nothing is allocated on frames where the HUD is unchanged
+function hudChanged(prev: HudSnapshot | null, world: World) {
+  if (!prev || prev.score !== world.score || prev.lives !== world.lives || prev.bombs !== world.bombs) return true
+  if (prev.bossWarning !== world.bossWarning > 0) return true
+  if (prev.boss?.hp !== world.boss?.hp || prev.boss?.phase !== world.boss?.phase) return true
+  for (const type of POWER_UP_TYPES) {
+    if (prev.powerUpTimeLeft[type] !== secondsLeft(world.powerUpTimers[type])) return true
+  }
+  return false
+}
+
+// Owns the simulation loop, input recording, replay playback and rendering.
+// Runs inside the game worker, or on the main thread where OffscreenCanvas is unavailable.
+export function createGameRunner(canvas: HTMLCanvasElement | OffscreenCanvas, post: (message: RunnerMessage) => void) {
+  const renderer = createCanvasRenderer(canvas)
+
+  let mode: RunnerMode = "stopped"
+  let world: World | null = null
+  let recorder: InputRecorder | null = null
+  let replayPlayer: ReplayPlayer | null = null
+  let replayPlaying = false
+  let replaySpeed = 1
+
+  const input = createPlayerInput()
+  let lastPointer: Vector | null = null // Previous position of a relative drag, whose movement steers the player
+  let autopilot: InputSource | null = null // Flies the current world instead of the player's input when set
+  let autopilotEnabled = false
+  let attractRestartTime = 0
+
+  let frameId: FrameHandle | null = null
+  let lastTime = 0
+  let lastHud: HudSnapshot | null = null
+  let lastReplayTick = -1
+
+  // Debug overlay state, metrics are averaged over each interval
+  let debug = false
+  const renderOptions = { hitboxes: false }
+  let debugFrames = 0
+  let debugWorkTime = 0
+  let debugWindowStart = 0
+
+  const loop = createFixedStepLoop((dt) => {
+    if (mode === "replay") {
+      replayPlayer?.stepOnce()
+    } else if (world && world.status === "playing") {
+      // Record the input applied on every tick so the run can be replayed, whoever is flying
+      const stepInput = autopilot ? autopilot(world) : input
+      recorder?.record(world, stepInput)
+      step(world, stepInput, dt)
+    }
+  })
+
+  // The world currently on screen
+  const visibleWorld = () => (mode === "replay" ? replayPlayer?.world : world) ?? null
+
+  const postHud = (current: World) => {
+    if (!hudChanged(lastHud, current)) return
+
+    const hud: HudSnapshot = {
+      score: current.score,
+      lives: current.lives,
+      powerUpTimeLeft: Object.fromEntries(
+        POWER_UP_TYPES.map((type) => [type, secondsLeft(current.powerUpTimers[type])]),
+      ) as HudSnapshot["powerUpTimeLeft"],
+      bombs: current.bombs,
+      bossWarning: current.bossWarning > 0,
+      boss: current.boss && { hp: current.boss.hp, maxHp: current.boss.maxHp, phase: current.boss.phase },
+    }
+    lastHud = hud
+    post({ type: "hud", hud })
+  }
+
+  const postReplayProgress = (force = false) => {
+    if (!replayPlayer) return
+    if (replayPlayer.isFinished()) replayPlaying = false
+
+    const tick = replayPlayer.world.tick
+    if (!force && tick === lastReplayTick) return
+
+    lastReplayTick = tick
+    post({ type: "replayProgress", tick, totalTicks: replayPlayer.replay.ticks, playing: replayPlaying })
+  }
+
+  const postDebug = (now: number, workTime: number) => {
+    debugFrames++
+    debugWorkTime += workTime
+    if (now - debugWindowStart < DEBUG_INTERVAL) return
+
+    const current = visibleWorld()
+    if (current) {
+      const stats: DebugSnapshot = {
+        fps: Math.round((debugFrames * 1000) / (now - debugWindowStart)),
+        frameTime: debugWorkTime / debugFrames,
+        tick: current.tick,
+        entities: {
+          bullets: current.bullets.length,
+          blocks: current.blocks.length,
+          powerUps: current.powerUps.length,
+          enemyBullets: current.enemyBullets.length,
+        },
+        pools: {
+          bullets: current.pools.bullets.length,
+          blocks: current.pools.blocks.length,
+          powerUps: current.pools.powerUps.length,
+          enemyBullets: current.pools.enemyBullets.length,
+        },
+        difficulty: { ...current.difficulty },
+      }
+      post({ type: "debug", stats })
+    }
+
+    debugFrames = 0
+    debugWorkTime = 0
+    debugWindowStart = now
+  }
+
+  const render = () => {
+    const current = visibleWorld()
+    if (current) {
+      renderer.render(current, renderOptions)
+    } else {
+      renderer.clear()
+    }
+  }
+
+  const stopFrames = () => {
+    if (frameId !== null) {
+      cancelFrame(frameId)
+      frameId = null
+    }
+  }
+
+  const frame = (now: number) => {
+    frameId = null
+    const workStart = performance.now()
+    const elapsed = now - lastTime
+    lastTime = now
+
+    if (mode === "playing" && world) {
+      loop.advance(elapsed)
+
+      const events = drainEvents(world)
+      if (events.length > 0) post({ type: "events", events })
+      postHud(world)
+
+      if (world.status === "gameOver" && recorder) {
+        post({ type: "gameOver", score: world.score, replay: recorder.finish(world) })
+        recorder = null
+        mode = "stopped"
+      }
+    } else if (mode === "attract" && world) {
+      loop.advance(elapsed)
+      drainEvents(world)
+
+      if (world.status === "gameOver") {
+        if (attractRestartTime === 0) attractRestartTime = now + ATTRACT_RESTART_DELAY
+        if (now >= attractRestartTime) startAttract()
+      }
+    } else if (mode === "replay" && replayPlayer) {
+      if (replayPlaying) loop.advance(elapsed * replaySpeed)
+      postHud(replayPlayer.world)
+      postReplayProgress()
+    }
+
+    render()
+    if (debug) postDebug(now, performance.now() - workStart)
+
+    if (mode === "playing" || mode === "replay" || mode === "attract") {
+      frameId = requestFrame(frame)
+    }
+  }
+
+  const startFrames = () => {
+    stopFrames()
+    loop.reset()
+    lastTime = performance.now()
+    frameId = requestFrame(frame)
+  }
+
+  // A fresh demo game on a random seed, flown by its own autopilot
+  const startAttract = () => {
+    world = createWorld(randomSeed())
+    autopilot = createAutopilot()
+    attractRestartTime = 0
+  }
+
+  const releaseInput = () => {
+    Object.assign(input, createPlayerInput())
+    lastPointer = null
+  }
+
+  const handle = (command: RunnerCommand) => {
+    switch (command.type) {
+      case "resize":
+        renderer.resize(command.width, command.height, command.pixelRatio)
+        render()
+        break
+
+      case "start":
+        world = createWorld(command.seed, command.profile)
+        recorder = createInputRecorder()
+        autopilot = autopilotEnabled ? createAutopilot() : null
+        replayPlayer = null
+        lastHud = null
+        releaseInput()
+        mode = "playing"
+        postHud(world)
+        startFrames()
+        break
+
+      case "attract":
+        recorder = null
+        replayPlayer = null
+        releaseInput()
+        mode = "attract"
+        startAttract()
+        startFrames()
+        break
+
+      case "autopilot":
+        autopilotEnabled = command.enabled
+        if (mode === "playing" || mode === "paused") {
+          autopilot = autopilotEnabled ? createAutopilot() : null
+        }
+        break
+
+      case "pause":
+        if (mode !== "playing") break
+        mode = "paused"
+        releaseInput()
+        stopFrames()
+        break
+
+      case "resume":
+        if (mode !== "paused") break
+        mode = "playing"
+        startFrames()
+        break
+
+      case "stop":
+        mode = "stopped"
+        world = null
+        recorder = null
+        replayPlayer = null
+        autopilot = null
+        releaseInput()
+        stopFrames()
+        render()
+        break
+
+      case "input": {
+        const { moveX, moveY, fire, bomb, pointer } = command.actions
+        input.moveX = moveX
+        input.moveY = moveY
+        input.fire = fire
+        input.bomb = bomb
+
+        if (!pointer) {
+          lastPointer = null
+          input.drag = null
+        } else if (pointer.mode === "absolute") {
+          lastPointer = null
+          input.drag = { x: pointer.x, y: pointer.y }
+        } else if (!lastPointer) {
+          if (mode !== "playing" || !world) break
+          // Only movement counts, so the ship doesn't jump under the finger
+          lastPointer = { x: pointer.x, y: pointer.y }
+        } else if (world) {
+          // Move on from the clamped target, so the ship responds at once when the pointer turns back at an edge
+          const from = input.drag ?? world.player
+          input.drag = {
+            x: Math.max(
+              0,
+              Math.min(world.width - PLAYER_SIZE, from.x + (pointer.x - lastPointer.x) * pointer.sensitivity),
+            ),
+            y: Math.max(
+              0,
+              Math.min(world.height - PLAYER_SIZE, from.y + (pointer.y - lastPointer.y) * pointer.sensitivity),
+            ),
+          }
+          lastPointer = { x: pointer.x, y: pointer.y }
+        }
+        break
+      }
+
+      case "watchReplay":
+        replayPlayer = createReplayPlayer(command.replay)
+        replayPlaying = true
+        lastHud = null
+        lastReplayTick = -1
+        mode = "replay"
+        postReplayProgress(true)
+        startFrames()
+        break
+
+      case "replayPlayback":
+        if (!replayPlayer) break
+        // Restart from the beginning when pressing play at the end
+        if (command.playing && replayPlayer.isFinished()) replayPlayer.seek(0)
+        replayPlaying = command.playing
+        replaySpeed = command.speed
+        postReplayProgress(true)
+        break
+
+      case "debug":
+        debug = command.enabled
+        renderOptions.hitboxes = debug
+        debugFrames = 0
+        debugWorkTime = 0
+        debugWindowStart = performance.now()
+        render()
+        break
+
+      case "seekReplay":
+        if (!replayPlayer) break
+        replayPlayer.seek(command.tick)
+        postHud(replayPlayer.world)
+        postReplayProgress(true)
+        render()
+        break
+    }
+  }
+
+  return { handle }
+}
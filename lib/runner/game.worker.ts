@@ -0,0 +1,14 @@
+import { createGameRunner, type GameRunner } from "./game-runner"
+import type { RunnerCommand, RunnerInit, RunnerMessage } from "./protocol"
+
+// Simulation and rendering thread - the main thread only forwards input and shows the HUD
+let runner: GameRunner | null = null
+
+self.addEventListener("message", (e: MessageEvent<RunnerInit | RunnerCommand>) => {
+  if (e.data.type === "init") {
+    runner = createGameRunner(e.data.canvas, (message: RunnerMessage) => self.postMessage(message))
+    return
+  }
+
+  runner?.handle(e.data)
+})
@@ -0,0 +1,43 @@
+import { createGameRunner } from "./game-runner"
+import type { RunnerCommand, RunnerInit, RunnerMessage } from "./protocol"
+
+export interface GameHost {
+  send: (command: RunnerCommand) => void
+  dispose: () => void
+}
+
+// Create the game canvas inside the container and run the game off the main thread when possible.
+// Browsers without OffscreenCanvas run the same runner on the main thread instead.
+export function createGameHost(container: HTMLElement, onMessage: (message: RunnerMessage) => void): GameHost {
+  // A fresh canvas per host, since a canvas can only hand its control to a worker once
+  const canvas = document.createElement("canvas")
+  canvas.className = "absolute inset-0 w-full h-full"
+  container.appendChild(canvas)
+
+  if (typeof Worker !== "undefined" && "transferControlToOffscreen" in canvas) {
+    const worker = new Worker(new URL("./game.worker.ts", import.meta.url))
+    const offscreen = canvas.transferControlToOffscreen()
+
+    worker.addEventListener("message", (e: MessageEvent<RunnerMessage>) => onMessage(e.data))
+    worker.addEventListener("error", (e) => console.error("Game worker error:", e.message))
+    worker.postMessage({ type: "init", canvas: offscreen } satisfies RunnerInit, [offscreen])
+
+    return {
+      send: (command) => worker.postMessage(command),
+      dispose: () => {
+        worker.terminate()
+        canvas.remove()
+      },
+    }
+  }
+
+  const runner = createGameRunner(canvas, onMessage)
+
+  return {
+    send: runner.handle,
+    dispose: () => {
+      runner.handle({ type: "stop" })
+      canvas.remove()
+    },
+  }
+}
@@ -0,0 +1,51 @@
+import type { Difficulty, DifficultyProfile, EntityPools, GameEvent, PowerUpType, Replay } from "@/lib/engine"
+import type { InputActions } from "@/lib/input/input-manager"
+
+// Values shown in the DOM HUD, sent whenever one of them changes
+export interface HudSnapshot {
+  score: number
+  lives: number
+  powerUpTimeLeft: Record<PowerUpType, number> // Whole seconds left, 0 when inactive
+  bombs: number
+  bossWarning: boolean // A boss is about to enter
+  boss: { hp: number; maxHp: number; phase: number } | null
+}
+
+// Live metrics for the debug overlay, sent a few times a second while it is open
+export interface DebugSnapshot {
+  fps: number
+  frameTime: number // Average ms spent simulating and drawing a frame
+  tick: number
+  entities: Record<keyof EntityPools, number> // Live entities of each kind
+  pools: Record<keyof EntityPools, number> // Retired entities waiting for reuse
+  difficulty: Difficulty
+}
+
+// Commands from the main thread to the runner
+export type RunnerCommand =
+  | { type: "resize"; width: number; height: number; pixelRatio: number }
+  | { type: "start"; seed: number; profile: DifficultyProfile }
+  | { type: "attract" } // Autopilot demo behind the title screen, restarting whenever it dies
+  | { type: "autopilot"; enabled: boolean } // Let the autopilot fly the current and following games
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "stop" }
+  | { type: "input"; actions: InputActions } // Pointer positions are in world units
+  | { type: "watchReplay"; replay: Replay }
+  | { type: "replayPlayback"; playing: boolean; speed: number }
+  | { type: "seekReplay"; tick: number }
+  | { type: "debug"; enabled: boolean } // Debug overlay metrics and hitbox outlines
+
+// Messages from the runner back to the main thread
+export type RunnerMessage =
+  | { type: "hud"; hud: HudSnapshot }
+  | { type: "events"; events: GameEvent[] }
+  | { type: "gameOver"; score: number; replay: Replay }
+  | { type: "replayProgress"; tick: number; totalTicks: number; playing: boolean }
+  | { type: "debug"; stats: DebugSnapshot }
+
+// Worker bootstrap message, carrying the transferred canvas
+export interface RunnerInit {
+  type: "init"
+  canvas: OffscreenCanvas
+}
@@ -0,0 +1,94 @@
+// Run games headlessly and print a JSON summary, for regression checks and balance work.
+//
+//   yarn simulate --seed 42 --difficulty hard --bot sweep --ticks 36000
+//   yarn simulate --replay my-replay.json
+//   yarn simulate --inputs frames.json --runs 10
+import { readFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import {
+  BOTS,
+  getDifficultyPreset,
+  parseReplay,
+  parseSeed,
+  randomSeed,
+  scriptedInput,
+  simulate,
+  validateInputFrames,
+  type InputSource,
+  type SimulationSummary,
+} from "../lib/engine"
+
+const { values } = parseArgs({
+  options: {
+    seed: { type: "string" },
+    difficulty: { type: "string", default: "normal" },
+    ticks: { type: "string", default: String(60 * 60 * 10) }, // 10 minutes of play
+    bot: { type: "string", default: "sweep" },
+    inputs: { type: "string" }, // JSON array of input frames
+    replay: { type: "string" }, // Replay file, overrides seed, difficulty and inputs
+    runs: { type: "string", default: "1" }, // Consecutive seeds starting at --seed
+  },
+})
+
+function fail(message: string): never {
+  console.error(message)
+  process.exit(1)
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"))
+  } catch (error) {
+    fail(`Could not read ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+const maxTicks = Number(values.ticks)
+const runs = Number(values.runs)
+if (!Number.isInteger(maxTicks) || maxTicks <= 0) fail("--ticks must be a positive integer")
+if (!Number.isInteger(runs) || runs <= 0) fail("--runs must be a positive integer")
+
+let summaries: SimulationSummary[]
+
+if (values.replay) {
+  let replay
+  try {
+    replay = parseReplay(readFileSync(values.replay, "utf8"))
+  } catch (error) {
+    fail(`Could not load replay: ${error instanceof Error ? error.message : error}`)
+  }
+
+  summaries = [
+    simulate({
+      seed: replay.seed,
+      profile: replay.profile,
+      maxTicks: Math.min(maxTicks, replay.ticks),
+      input: scriptedInput(replay.frames),
+    }),
+  ]
+} else {
+  const profile = getDifficultyPreset(values.difficulty)
+  if (profile.id !== values.difficulty) fail(`Unknown difficulty: ${values.difficulty}`)
+
+  let createInput: () => InputSource
+  if (values.inputs) {
+    let frames
+    try {
+      frames = validateInputFrames(readJson(values.inputs))
+    } catch (error) {
+      fail(`Could not load input frames: ${error instanceof Error ? error.message : error}`)
+    }
+    createInput = () => scriptedInput(frames)
+  } else {
+    const bot = BOTS[values.bot]
+    if (!bot) fail(`Unknown bot: ${values.bot}. Available: ${Object.keys(BOTS).join(", ")}`)
+    createInput = bot
+  }
+
+  const firstSeed = (values.seed !== undefined ? parseSeed(values.seed) : null) ?? randomSeed()
+  summaries = Array.from({ length: runs }, (_, i) =>
+    simulate({ seed: (firstSeed + i) >>> 0, profile, maxTicks, input: createInput() }),
+  )
+}
+
+console.log(JSON.stringify(summaries.length === 1 ? summaries[0] : summaries, null, 2))